@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AuditLog, normalizeArgument } from "./audit";
+import type { AuditEntry } from "./audit";
+
+function entry(argument: string): AuditEntry {
+  return {
+    time: "2024-01-01T00:00:00.000Z",
+    sessionID: "s",
+    tool: "bash",
+    argument,
+    decision: "allow",
+    ruleId: null,
+  };
+}
+
+describe("Audit", () => {
+  describe("normalizeArgument", () => {
+    it("should trim commands", () => {
+      expect(normalizeArgument("bash", "  ls -la\n", "/app")).toBe("ls -la");
+    });
+
+    it("should make paths inside the project relative", () => {
+      expect(normalizeArgument("read", "/app/src/../.env", "/app")).toBe(".env");
+      expect(normalizeArgument("edit", "./src/a.ts", "/app")).toBe("src/a.ts");
+      expect(normalizeArgument("read", "/etc/passwd", "/app")).toBe("/etc/passwd");
+    });
+  });
+
+  describe("AuditLog", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "command-blocker-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should append one JSON line per entry, in order", async () => {
+      const log = new AuditLog(join(directory, "nested", "audit.jsonl"));
+      log.write(entry("a"));
+      log.write(entry("b"));
+      await log.flush();
+      log.write(entry("c"));
+      await log.flush();
+
+      const lines = (await readFile(log.file, "utf8")).trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line).argument)).toEqual(["a", "b", "c"]);
+    });
+
+    it("should report write errors instead of throwing", async () => {
+      const errors: Error[] = [];
+      const log = new AuditLog(directory, (error) => errors.push(error));
+      log.write(entry("a"));
+      await log.flush();
+      expect(errors).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+
+export type Decision = "allow" | "warn" | "rewrite" | "redact" | "block";
+
+export interface AuditEntry {
+  time: string;
+  sessionID: string | null;
+  tool: string;
+  argument: string;
+  decision: Decision;
+  ruleId: string | null;
+}
+
+// Only the tools the built-in rules understand are audited
+export const AUDITED_TOOLS: readonly string[] = ["bash", "read", "edit", "write"];
+
+// Commands are trimmed; file paths are made relative to the project root when
+// inside it, so that the same file is logged the same way however it was named
+export function normalizeArgument(
+  tool: string,
+  argument: string,
+  root: string
+): string {
+  if (tool === "bash") return argument.trim();
+  if (!argument) return argument;
+  const absolute: string = resolve(root, argument);
+  const inside: string = relative(root, absolute);
+  if (inside.startsWith("..") || isAbsolute(inside)) return absolute;
+  return inside.split("\\").join("/");
+}
+
+// Appends one JSON line per entry. Writes are queued in the background so
+// that the hook never waits on the disk; `flush` resolves once they land.
+export class AuditLog {
+  private pending: string[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private created = false;
+
+  constructor(
+    readonly file: string,
+    private readonly onError: (error: Error) => void = () => {}
+  ) {}
+
+  write(entry: AuditEntry): void {
+    this.pending.push(`${JSON.stringify(entry)}\n`);
+    if (this.pending.length === 1) {
+      this.writing = this.writing.then(() => this.drain());
+    }
+  }
+
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private async drain(): Promise<void> {
+    const lines: string = this.pending.join("");
+    this.pending = [];
+    try {
+      if (!this.created) {
+        await mkdir(dirname(this.file), { recursive: true });
+        this.created = true;
+      }
+      await appendFile(this.file, lines);
+    } catch (error) {
+      this.onError(error as Error);
+    }
+  }
+}
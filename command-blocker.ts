@@ -1,4 +1,47 @@
 import type { Plugin, PluginInput } from "@opencode-ai/plugin";
+import { resolve } from "node:path";
+import { AUDITED_TOOLS, AuditLog, normalizeArgument } from "./audit";
+import type { Decision } from "./audit";
+import { pathEnvironmentOf } from "./paths";
+import type { PathEnvironment } from "./paths";
+import { loadPolicy, MODES } from "./policy";
+import { PythonEnvironments } from "./python-env";
+import type {
+  ContentRuleDefinition,
+  EnforcementMode,
+  FlakeSchemeAccess,
+  Policy,
+  WrapperDefinition,
+} from "./policy";
+import {
+  BlockedError,
+  createBuiltinRules,
+  createPolicyRule,
+  createRuleContext,
+  redactedFormatOf,
+  resolvePaths,
+  RuleRegistry,
+  severityOf,
+} from "./rules";
+import { redactSecrets } from "./redact";
+import type { SecretFormat } from "./redact";
+import { loadEnvSecrets, maskSecrets } from "./secrets";
+import type { Rule } from "./rules";
+import { ViolationLog } from "./violations";
+import type { Violation } from "./violations";
+
+export { BlockedError } from "./rules";
+export type {
+  BlockedErrorDetails,
+  Rule,
+  RuleContext,
+  RuleMatch,
+  Severity,
+} from "./rules";
+export { AuditLog } from "./audit";
+export type { AuditEntry, Decision } from "./audit";
+export { ViolationLog } from "./violations";
+export type { Violation } from "./violations";
 
 interface BlockedCommandMessages {
   [key: string]: string;
@@ -140,433 +183,417 @@ const SECRET_FILES: readonly string[] = [
   "**/settings.*",
   ".config",
   "**/.config",
-];
 
-const BLOCKED_COMMANDS: readonly string[] = Object.keys(
-  BLOCKED_COMMAND_MESSAGES
-);
-const ALLOWED_GIT_COMMANDS: readonly string[] = [
-  "git diff",
-  "git log",
-  "git ls-files",
-  "git rev-parse",
-  "git show",
-  "git status",
+  // Templates committed in place of the real files
+  "!.env.example",
+  "!.env.sample",
 ];
 
-function checkPythonNodeCommand(command: string): void {
-  if (typeof command !== "string" || typeof command.trim !== "function") return;
-
-  const isWhichOrWhereis: boolean =
-    command.includes("which") || command.includes("whereis");
-
-  // Allow python commands from virtual environments and uv
-  const venvPatterns: RegExp[] = [
-    /[./\\]*\.venv[/\\]bin[/\\]python\d*/, // .venv/bin/python, .venv/bin/python3
-    /[./\\]*venv[/\\]bin[/\\]python\d*/, // venv/bin/python, venv/bin/python3
-    /[./\\]*env[/\\]bin[/\\]python\d*/, // env/bin/python, env/bin/python3
-    /uv run python\d*/, // uv run python, uv run python3
-    /uvx python\d*/, // uvx python, uvx python3
-  ];
-
-  for (const blockedCmd of BLOCKED_COMMANDS) {
-    if (blockedCmd === "git" || blockedCmd === "nix") continue;
-
-    // Check for direct command usage (first word)
-    const commandParts: string[] = command.trim().split(/\s+/);
-    const firstCommand: string = commandParts[0];
-
-    // Handle environment variables (VAR=value command)
-    const envVarPattern: RegExp = new RegExp(
-      `^[A-Z_][A-Z0-9_]*=.*\\b${blockedCmd}\\b`,
-      "i"
-    );
-    if (envVarPattern.test(command)) {
-      throw new Error(BLOCKED_COMMAND_MESSAGES[blockedCmd]);
-    }
-
-    // Handle exec and eval wrappers
-    if (firstCommand === "exec" || firstCommand === "eval") {
-      // Check if any subsequent part contains blocked command
-      const remainingCommand = commandParts.slice(1).join(" ");
-      if (remainingCommand.includes(blockedCmd)) {
-        throw new Error(BLOCKED_COMMAND_MESSAGES[blockedCmd]);
-      }
-    }
-
-    // Check first command (after removing environment variables)
-    let actualFirstCommand = firstCommand;
-    if (firstCommand.includes("=")) {
-      // Remove environment variable part
-      const afterEnv = commandParts.find(
-        (part, index) => index > 0 && !part.includes("=")
-      );
-      if (afterEnv) {
-        actualFirstCommand = afterEnv;
-      }
-    }
-
-    if (actualFirstCommand === blockedCmd) {
-      throw new Error(BLOCKED_COMMAND_MESSAGES[blockedCmd]);
-    }
-
-    // Enhanced pattern matching for complex command structures
-    if (!isWhichOrWhereis) {
-      // Check for blocked commands in various contexts, but skip if it's a virtual environment python
-      const isVenvPython =
-        blockedCmd.startsWith("python") &&
-        venvPatterns.some((pattern) => pattern.test(actualFirstCommand));
-
-      if (!isVenvPython) {
-        const patterns: RegExp[] = [
-          // Direct command anywhere
-          new RegExp(`\\b${blockedCmd}\\b`, "g"),
-          // In command substitution $(...)
-          new RegExp(`\\$\\([^)]*\\b${blockedCmd}\\b[^)]*\\)`, "g"),
-          // In backticks `...`
-          new RegExp(`\`[^\`]*\\b${blockedCmd}\\b[^\`]*\``, "g"),
-          // In quoted strings within commands
-          new RegExp(`["'][^"']*\\b${blockedCmd}\\b[^"']*["']`, "g"),
-          // After operators like &&, ||, ;, |
-          new RegExp(`[;&|]{1,2}\\s*\\b${blockedCmd}\\b`, "g"),
-          // In background execution &
-          new RegExp(`\\b${blockedCmd}\\b\\s*&`, "g"),
-          // With redirection
-          new RegExp(`\\b${blockedCmd}\\b\\s*[<>]`, "g"),
-          // Escaped characters
-          new RegExp(`\\b${blockedCmd.replace(/(.)/g, "$1\\\\?")}\\b`, "g"),
-        ];
-
-        for (const pattern of patterns) {
-          if (pattern.test(command)) {
-            // For python commands, check if it's a virtual environment python
-            if (blockedCmd.startsWith("python")) {
-              // Check if any venv python patterns match in the command
-              const hasVenvPython = venvPatterns.some((venvPattern) =>
-                venvPattern.test(command)
-              );
-              if (!hasVenvPython) {
-                throw new Error(BLOCKED_COMMAND_MESSAGES[blockedCmd]);
-              }
-            } else {
-              throw new Error(BLOCKED_COMMAND_MESSAGES[blockedCmd]);
-            }
-          }
-        }
-      }
-    }
-  }
-}
-
-function checkGitCommand(command: string): void {
-  if (typeof command !== "string" || typeof command.trim !== "function") return;
-
-  const commandParts: string[] = command.trim().split(/\s+/);
-  const firstCommand: string = commandParts[0];
-
-  // Handle environment variables (VAR=value git ...)
-  let actualFirstCommand: string = firstCommand;
-  if (firstCommand.includes("=")) {
-    const afterEnv: string | undefined = commandParts.find(
-      (part: string, index: number) => index > 0 && !part.includes("=")
-    );
-    if (afterEnv) {
-      actualFirstCommand = afterEnv;
-    }
-  }
-
-  // Handle exec and eval wrappers
-  if (firstCommand === "exec" || firstCommand === "eval") {
-    const remainingCommand = commandParts.slice(1).join(" ");
-    if (remainingCommand.includes("git")) {
-      // Check if it's an allowed git command
-      const isAllowed = ALLOWED_GIT_COMMANDS.some((cmd) =>
-        remainingCommand.trim().startsWith(cmd)
-      );
-      if (!isAllowed) {
-        throw new Error(BLOCKED_COMMAND_MESSAGES["git"]);
-      }
-    }
-  }
-
-  if (actualFirstCommand === "git") {
-    const isAllowed = ALLOWED_GIT_COMMANDS.some((cmd) =>
-      command.trim().startsWith(cmd)
-    );
-    if (!isAllowed) {
-      throw new Error(BLOCKED_COMMAND_MESSAGES["git"]);
-    }
-  }
+// Environment variables named like credentials
+const SECRET_VARIABLES: readonly string[] = [
+  "*KEY*",
+  "*SECRET*",
+  "*TOKEN*",
+  "*PASSWORD*",
+  "*PASSWD*",
+  "*PASS",
+  "*CREDENTIAL*",
+  "*AUTH*",
+  "*PRIVATE*",
+  "*COOKIE*",
+  "*DSN",
+  "*DATABASE_URL",
+  "*_PAT",
+
+  // Named like secrets, but harmless
+  "!SSH_AUTH_SOCK",
+  "!GIT_AUTHOR_*",
+  "!*PUBLIC_KEY*",
+  "!*PUBLISHABLE_KEY*",
+];
 
-  // Check for git commands in complex structures
-  const gitPatterns: RegExp[] = [
-    // In command substitution $(...)
-    /\$\([^)]*git[^)]*\)/g,
-    // In backticks `...`
-    /`[^`]*git[^`]*`/g,
-    // In quoted strings
-    /["'][^"']*git[^"']*["']/g,
-    // After operators like &&, ||, ;, |
-    /[;&|]{1,2}\s*git/g,
-    // In background execution
-    /git\s*&/g,
-    // With redirection
-    /git\s*[<>]/g,
-  ];
-
-  for (const pattern of gitPatterns) {
-    if (pattern.test(command)) {
-      // Extract the git command part and check if it's allowed
-      const gitMatch = command.match(/git\s+[^\s;&|`]*/);
-      if (gitMatch) {
-        const gitCommand = gitMatch[0];
-        const isAllowed = ALLOWED_GIT_COMMANDS.some((cmd) =>
-          gitCommand.startsWith(cmd)
-        );
-        if (!isAllowed) {
-          throw new Error(BLOCKED_COMMAND_MESSAGES["git"]);
-        }
-      }
-    }
-  }
-}
+const TS_FILES: string[] = ["*.ts", "*.tsx", "*.mts", "*.cts"];
+const JS_FILES: string[] = ["*.js", "*.jsx", "*.mjs", "*.cjs"];
+
+const CONTENT_RULES: Record<string, ContentRuleDefinition> = {
+  "ts-any": {
+    files: TS_FILES,
+    pattern: "(?:[:<,|&(]\\s*|\\bas\\s+)any\\b(?![\\w$])",
+    message:
+      "The TypeScript `any` type is blocked because it disables type checking. Use a specific type, a generic, or `unknown` with narrowing.",
+    codeOnly: true,
+  },
+  "ts-ignore": {
+    files: [...TS_FILES, ...JS_FILES],
+    pattern: "@ts-(?:ignore|nocheck)\\b",
+    message:
+      "`@ts-ignore` and `@ts-nocheck` are blocked because they hide type errors. Fix the error, or use `@ts-expect-error` with an explanation.",
+  },
+  "eslint-disable": {
+    files: [...TS_FILES, ...JS_FILES, "*.vue", "*.svelte"],
+    pattern: "eslint-disable(?:-next-line|-line)?(?=\\s*(?:\\*\\/|--|$))",
+    message:
+      "Blanket `eslint-disable` comments are blocked. Fix the lint error, or disable only the specific rule (e.g. `// eslint-disable-next-line no-console`).",
+  },
+  "python-type-ignore": {
+    files: ["*.py", "*.pyi"],
+    pattern: "#\\s*type:\\s*ignore\\b",
+    message:
+      "`# type: ignore` comments are blocked because they hide type errors. Fix the error or narrow the type.",
+  },
+};
 
-function checkNixCommand(command: string): void {
-  if (typeof command !== "string" || typeof command.trim !== "function") return;
+// Local paths without `path:` are fetched as git checkouts that silently
+// leave out untracked files
+const FLAKE_SCHEMES: Record<string, FlakeSchemeAccess> = {
+  local: "deny",
+  path: "allow",
+  registry: "allow",
+  store: "allow",
+  github: "allow",
+  gitlab: "allow",
+  sourcehut: "allow",
+  git: "allow",
+  "git+https": "allow",
+  "git+ssh": "allow",
+  "git+http": "allow",
+  "git+file": "allow",
+  hg: "allow",
+  tarball: "allow",
+  file: "allow",
+  https: "allow",
+  http: "allow",
+};
 
-  const tokens: string[] = command.trim().split(/\s+/);
+// The hosts the blocked-command messages recommend
+const PYTHON_HOSTS: string[] = [
+  "uv",
+  "uvx",
+  "poetry run",
+  "pipenv run",
+  "pixi run",
+  "hatch run",
+  "pdm run",
+  "conda run",
+];
+const SANCTIONED_HOSTS: Record<string, string[]> = {
+  node: ["bun", "bunx"],
+  pip: ["uv", "uvx"],
+  python: PYTHON_HOSTS,
+  python2: PYTHON_HOSTS,
+  python3: PYTHON_HOSTS,
+};
 
-  // Handle exec and eval wrappers
-  if (tokens[0] === "exec" || tokens[0] === "eval") {
-    const remainingCommand: string = tokens.slice(1).join(" ");
-    if (remainingCommand.includes("nix")) {
-      // Recursively check the inner command
-      checkNixCommand(remainingCommand);
-    }
-  }
+// Commands that run another command, so that `sudo pip` or `find -exec
+// python` are checked like `pip` and `python`
+const WRAPPERS: Record<string, WrapperDefinition> = {
+  command: { queries: ["-v", "-V"] },
+  doas: { options: { "-u": 1, "-C": 1 } },
+  env: {
+    options: {
+      "-u": 1,
+      "--unset": 1,
+      "-C": 1,
+      "--chdir": 1,
+      "-S": 1,
+      "--split-string": 1,
+    },
+    split: ["-S", "--split-string"],
+  },
+  // `exec -a name` sets the name the command is run under
+  exec: { options: { "-a": 1, "-c": 0, "-l": 0 } },
+  find: { exec: ["-exec", "-execdir", "-ok", "-okdir"] },
+  ionice: {
+    options: { "-c": 1, "--class": 1, "-n": 1, "--classdata": 1 },
+    queries: ["-p", "--pid", "-P", "--pgid", "-u", "--uid"],
+  },
+  nice: { options: { "-n": 1, "--adjustment": 1 } },
+  nohup: {},
+  stdbuf: {
+    options: {
+      "-i": 1,
+      "--input": 1,
+      "-o": 1,
+      "--output": 1,
+      "-e": 1,
+      "--error": 1,
+    },
+  },
+  sudo: {
+    options: {
+      "-u": 1,
+      "--user": 1,
+      "-g": 1,
+      "--group": 1,
+      "-C": 1,
+      "--close-from": 1,
+      "-D": 1,
+      "--chdir": 1,
+      "-h": 1,
+      "--host": 1,
+      "-p": 1,
+      "--prompt": 1,
+      "-r": 1,
+      "--role": 1,
+      "-t": 1,
+      "--type": 1,
+      "-T": 1,
+      "--command-timeout": 1,
+      "-U": 1,
+      "--other-user": 1,
+    },
+    queries: ["-l", "--list"],
+  },
+  time: { options: { "-f": 1, "--format": 1, "-o": 1, "--output": 1 } },
+  timeout: {
+    options: { "-s": 1, "--signal": 1, "-k": 1, "--kill-after": 1 },
+    operands: 1,
+  },
+  watch: { options: { "-n": 1, "--interval": 1 }, shell: true },
+  xargs: {
+    options: {
+      "-a": 1,
+      "--arg-file": 1,
+      "-d": 1,
+      "--delimiter": 1,
+      "-E": 1,
+      "-I": 1,
+      "-L": 1,
+      "-n": 1,
+      "--max-args": 1,
+      "-P": 1,
+      "--max-procs": 1,
+      "-s": 1,
+      "--max-chars": 1,
+      "--process-slot-var": 1,
+    },
+  },
+};
 
-  let nixIdx: number = -1;
-  for (let i = 0; i < tokens.length; i++) {
-    if (tokens[i] === "nix" || tokens[i].endsWith("/nix")) {
-      nixIdx = i;
-      break;
-    }
-  }
+// Built-in tables, extended or overridden by the project policy file
+const DEFAULT_POLICY: Policy = {
+  blockedCommands: BLOCKED_COMMAND_MESSAGES,
+  readOnlyFiles: READ_ONLY_FILES,
+  secretFiles: [...SECRET_FILES],
+  caseInsensitiveGlobs: false,
+  secretFileReads: "block",
+  redactOutput: true,
+  secretVariables: [...SECRET_VARIABLES],
+  allowedGitCommands: [],
+  gitTiers: ["read-only"],
+  rules: [],
+  mode: "enforce",
+  severities: {},
+  auditLog: null,
+  rewrite: false,
+  contentRules: CONTENT_RULES,
+  flakeSchemes: FLAKE_SCHEMES,
+  sanctionedHosts: SANCTIONED_HOSTS,
+  wrappers: WRAPPERS,
+};
 
-  if (nixIdx >= 0) {
-    const isNixRunOrBuild =
-      tokens[nixIdx + 1] === "run" || tokens[nixIdx + 1] === "build";
-
-    if (isNixRunOrBuild) {
-      const args = command.split(/\s+/);
-      let flakeArg = null;
-      for (let i = nixIdx + 2; i < args.length; i++) {
-        if (!args[i].startsWith("-")) {
-          flakeArg = args[i];
-          break;
-        }
-      }
-
-      if (
-        flakeArg &&
-        !flakeArg.startsWith("path:") &&
-        !flakeArg.match(/^github:/) &&
-        !flakeArg.match(/^git\+https:/) &&
-        (flakeArg.startsWith("./") ||
-          flakeArg.startsWith("../") ||
-          flakeArg.startsWith("/"))
-      ) {
-        throw new Error(BLOCKED_COMMAND_MESSAGES["nix"]);
-      }
-    }
-  }
+// Overrides the policy file's mode, e.g. COMMAND_BLOCKER_MODE=warn
+const MODE_VARIABLE = "COMMAND_BLOCKER_MODE";
 
-  // Check for nix commands in complex structures by extracting and validating them
-  const complexPatterns: RegExp[] = [
-    /\$\([^)]*nix[^)]*\)/g, // In command substitution $(...)
-    /`[^\`]*nix[^\`]*`/g, // In backticks `...`
-    /["'][^"']*nix[^"']*["']/g, // In quoted strings
-  ];
-
-  for (const pattern of complexPatterns) {
-    const matches = command.match(pattern);
-    if (matches) {
-      for (const match of matches) {
-        // Extract the nix command from within the complex structure
-        const nixMatch = match.match(/nix\s+(run|build)\s+([^\s;&|`"']*)/);
-        if (nixMatch) {
-          const command = nixMatch[1]; // "run" or "build"
-          const flakeArg = nixMatch[2]; // the flake argument
-
-          if (
-            flakeArg &&
-            !flakeArg.startsWith("path:") &&
-            !flakeArg.match(/^github:/) &&
-            !flakeArg.match(/^git\+https:/) &&
-            (flakeArg.startsWith("./") ||
-              flakeArg.startsWith("../") ||
-              flakeArg.startsWith("/"))
-          ) {
-            throw new Error(BLOCKED_COMMAND_MESSAGES["nix"]);
-          }
-        }
-      }
-    }
+function enforcementModeOf(policy: Policy): EnforcementMode {
+  const mode: string | undefined = process.env[MODE_VARIABLE];
+  if (!mode) return policy.mode;
+  if (!MODES.includes(mode as EnforcementMode)) {
+    throw new Error(`${MODE_VARIABLE} must be "enforce" or "warn", got "${mode}"`);
   }
+  return mode as EnforcementMode;
 }
 
-function checkReadOnlyFileEdit(filePath: string): void {
-  if (typeof filePath !== "string") return;
-  if (!filePath) return;
+// Tools whose output is scanned for secrets
+const OUTPUT_TOOLS: readonly string[] = ["bash", "read"];
 
-  const fileName: string =
-    filePath.split(/[/\\]/).pop()?.split("?")[0]?.split("#")[0] || "";
+// Bounds the re-evaluation of rewritten commands
+const MAX_REWRITES = 10;
 
-  if (READ_ONLY_FILES[fileName]) {
-    throw new Error(READ_ONLY_FILES[fileName]);
-  }
+function rewritesEnabled(policy: Policy, ruleId: string): boolean {
+  return Array.isArray(policy.rewrite)
+    ? policy.rewrite.includes(ruleId)
+    : policy.rewrite;
 }
 
-// Simple glob pattern matcher
-function matchesGlob(pattern: string, str: string): boolean {
-  // Convert glob pattern to regex
-  let regexPattern = pattern
-    .replace(/[.+^${}()|[\]\\]/g, "\\$&") // Escape regex special chars
-    .replace(/\*\*/g, "(.*)") // ** matches any characters including /
-    .replace(/\*/g, "([^/]*)"); // * matches any characters except /
-
-  const regex = new RegExp(`^${regexPattern}$`);
-  return regex.test(str);
+export interface CommandBlockerOptions {
+  // Additional rules evaluated after the built-in and policy file rules
+  rules?: Rule[];
+  // Receives every violation, whether blocked, rewritten or only warned about
+  violations?: ViolationLog;
+  // Audit log to write to instead of the policy's `auditLog` file
+  auditLog?: AuditLog;
 }
 
-function checkSecretFileRead(filePath: string): void {
-  if (typeof filePath !== "string") return;
-  if (!filePath) return;
-
-  // Check the full path against glob patterns
-  for (const pattern of SECRET_FILES) {
-    if (matchesGlob(pattern, filePath)) {
-      throw new Error(
-        "`Reading secret files is blocked to prevent exposure of sensitive data including API keys, credentials, and configuration.`"
-      );
-    }
-  }
-
-  // Also check filename matches for backward compatibility
-  const fileName: string =
-    filePath.split(/[/\\]/).pop()?.split("?")[0]?.split("#")[0] || "";
-
-  for (const pattern of SECRET_FILES) {
-    if (matchesGlob(pattern, fileName)) {
-      throw new Error(
-        "`Reading secret files is blocked to prevent exposure of sensitive data including API keys, credentials, and configuration.`"
-      );
-    }
-  }
-}
-
-// Check for any secret file references in shell commands
-function checkSecretFileAccessCommand(command: string): void {
-  if (typeof command !== "string" || typeof command.trim !== "function") return;
-
-  const commandParts = command.trim().split(/\s+/);
-  const firstCommand = commandParts[0];
+export function createCommandBlocker(
+  options: CommandBlockerOptions = {}
+): Plugin {
+  return async ({ app, client, $ }: PluginInput) => {
+    const root: string = app?.path?.root ?? process.cwd();
+    const policy: Policy = await loadPolicy(root, DEFAULT_POLICY);
+    const mode: EnforcementMode = enforcementModeOf(policy);
+    const paths: PathEnvironment = pathEnvironmentOf(
+      root,
+      app?.path?.cwd ?? root
+    );
+    const violations: ViolationLog = options.violations ?? new ViolationLog();
+
+    // Logging must never fail a tool call
+    const log = async (level: "info" | "warn", message: string) => {
+      try {
+        await client?.app?.log?.({
+          body: { service: "command-blocker", level, message },
+        });
+      } catch {}
+    };
+
+    const auditLog: AuditLog | undefined =
+      options.auditLog ??
+      (policy.auditLog
+        ? new AuditLog(resolve(root, policy.auditLog), (error) =>
+            log("warn", `Could not write the audit log: ${error.message}`)
+          )
+        : undefined);
+
+    const registry: RuleRegistry = new RuleRegistry().register(
+      ...createBuiltinRules(policy, new PythonEnvironments($, root)),
+      ...policy.rules.map(createPolicyRule),
+      ...(options.rules ?? [])
+    );
 
-  // Handle environment variables (VAR=value command)
-  let actualFirstCommand = firstCommand;
-  if (firstCommand.includes("=")) {
-    const afterEnv = commandParts.find((part, index) => index > 0 && !part.includes("="));
-    if (afterEnv) {
-      actualFirstCommand = afterEnv;
-    }
-  }
+    // Formats of the secret files being read with redaction, by call id
+    const redactions = new Map<string, SecretFormat>();
+    // Values of the project's .env files, masked wherever output shows them
+    const envSecrets: string[] = policy.redactOutput
+      ? await loadEnvSecrets(root)
+      : [];
+
+    return {
+      "tool.execute.before": async (input, output) => {
+        for (let rewrites = 0; ; rewrites++) {
+          const context = createRuleContext(input.tool, output.args, policy);
+          await resolvePaths(context, paths);
+          const audit = (decision: Decision, ruleId: string | null) => {
+            if (!auditLog || !AUDITED_TOOLS.includes(input.tool)) return;
+            auditLog.write({
+              time: new Date().toISOString(),
+              sessionID: input.sessionID ?? null,
+              tool: input.tool,
+              argument: normalizeArgument(
+                input.tool,
+                context.command ?? context.filePath ?? "",
+                root
+              ),
+              decision,
+              ruleId,
+            });
+          };
+          // Warnings are only reported for the command that finally runs
+          const warnings: Violation[] = [];
+          let rewritten: boolean = false;
+
+          for (const rule of registry.forTool(input.tool)) {
+            if (severityOf(rule, policy) === "off") continue;
+            const match = await rule.match(context);
+            if (!match) continue;
+
+            const severity = severityOf(rule, policy, match.key);
+            if (severity === "off") continue;
+
+            const error = new BlockedError({
+              ruleId: rule.id,
+              tool: input.tool,
+              argument: context.command ?? context.filePath ?? "",
+              message: match.message ?? rule.message,
+              span: match.span,
+              suggestion: match.suggestion ?? rule.suggestion,
+              nesting: match.nesting,
+            });
+            const violation: Violation = {
+              ruleId: error.ruleId,
+              tool: error.tool,
+              argument: error.argument,
+              message: error.message,
+              span: match.span,
+              decision: "warn",
+              time: new Date(),
+            };
+
+            if (severity === "warn" || mode === "warn") {
+              warnings.push(violation);
+              continue;
+            }
 
-  // Handle exec and eval wrappers
-  if (firstCommand === "exec" || firstCommand === "eval") {
-    const remainingCommand = commandParts.slice(1).join(" ");
-    return checkSecretFileAccessCommand(remainingCommand);
-  }
+            const rewrite: string | undefined = error.suggestedArgument;
+            if (
+              context.command !== undefined &&
+              (match.rewritable ?? rule.rewritable) &&
+              rewrite !== undefined &&
+              rewrite !== context.command &&
+              rewrites < MAX_REWRITES &&
+              rewritesEnabled(policy, rule.id)
+            ) {
+              violations.record({ ...violation, decision: "rewrite", rewrite });
+              audit("rewrite", rule.id);
+              await log("info", `[${rule.id}] rewrote \`${error.argument}\` to \`${rewrite}\``);
+              output.args.command = rewrite;
+              rewritten = true;
+              break;
+            }
 
-  // Check all command arguments for secret file references
-  for (let i = 1; i < commandParts.length; i++) {
-    const arg = commandParts[i];
-
-    // Skip flags (arguments starting with -)
-    if (arg.startsWith('-')) continue;
-
-    // Check if this argument matches a secret file pattern
-    for (const pattern of SECRET_FILES) {
-      if (matchesGlob(pattern, arg)) {
-        throw new Error("`Reading secret files is blocked to prevent exposure of sensitive data including API keys, credentials, and configuration.`");
-      }
-    }
-
-    // Also check filename from path
-    const fileName = arg.split(/[/\\]/).pop()?.split("?")[0]?.split("#")[0] || "";
-    for (const pattern of SECRET_FILES) {
-      if (matchesGlob(pattern, fileName)) {
-        throw new Error("`Reading secret files is blocked to prevent exposure of sensitive data including API keys, credentials, and configuration.`");
-      }
-    }
-  }
+            violations.record({ ...violation, decision: "block" });
+            audit("block", rule.id);
+            throw error;
+          }
 
-  // Also check for secret files in complex command structures
-  const complexPatterns = [
-    /\$\([^)]*\)/g, // Command substitution $(...)
-    /`[^`]*`/g,     // Backticks `...`
-    /["'][^"']*["']/g, // Quoted strings
-  ];
-
-  for (const pattern of complexPatterns) {
-    const matches = command.match(pattern);
-    if (matches) {
-      for (const match of matches) {
-        // Extract potential file paths from the match
-        const words = match.replace(/[\$\(\)`"']/g, '').split(/\s+/);
-        for (const word of words) {
-          if (word && !word.startsWith('-')) {
-            for (const secretPattern of SECRET_FILES) {
-              if (matchesGlob(secretPattern, word)) {
-                throw new Error("`Reading secret files is blocked to prevent exposure of sensitive data including API keys, credentials, and configuration.`");
-              }
-            }
+          if (rewritten) continue;
+          for (const warning of warnings) {
+            violations.record(warning);
+            await log("warn", `[${warning.ruleId}] ${warning.tool}: ${warning.argument}`);
+          }
+          const format: SecretFormat | undefined = redactedFormatOf(context);
+          if (format) {
+            redactions.set(input.callID, format);
+            audit("redact", "secret-file");
+            return;
           }
+          audit(warnings.length > 0 ? "warn" : "allow", warnings[0]?.ruleId ?? null);
+          return;
+        }
+      },
+      "tool.execute.after": async (input, output) => {
+        const format: SecretFormat | undefined = redactions.get(input.callID);
+        if (format) {
+          redactions.delete(input.callID);
+          output.output = redactSecrets(output.output, format);
         }
-      }
-    }
-  }
-}
 
-export const CommandBlocker: Plugin = async ({
-  app,
-  client,
-  $,
-}: PluginInput) => {
-  return {
-    "tool.execute.before": async (input, output) => {
-      if (input.tool === "edit" || input.tool === "write") {
-        const filePath = output.args.filePath || output.args.file_path;
-        checkReadOnlyFileEdit(filePath);
-
-        if (input.tool === "edit") {
-          const newString = output.args.newString || "";
-        } else if (input.tool === "write") {
-          const content = output.args.content || "";
+        if (!policy.redactOutput || !OUTPUT_TOOLS.includes(input.tool)) return;
+        if (typeof output.output !== "string") return;
+        const { text, count } = maskSecrets(output.output, {
+          unquoted: true,
+          values: envSecrets,
+        });
+        if (count === 0) return;
+        const noun: string = count === 1 ? "secret" : "secrets";
+        output.output = `${text}\n\n[command-blocker] ${count} ${noun} redacted from this output.`;
+        // The bash tool repeats its output in the metadata shown to the user
+        if (typeof output.metadata?.output === "string") {
+          output.metadata.output = maskSecrets(output.metadata.output, {
+            unquoted: true,
+            values: envSecrets,
+          }).text;
         }
-      }
-
-      if (input.tool === "read") {
-        const filePath = output.args.filePath || output.args.file_path;
-        checkSecretFileRead(filePath);
-      }
-
-      if (input.tool === "bash") {
-        const command = output.args.command;
-        checkPythonNodeCommand(command);
-        checkGitCommand(command);
-        checkNixCommand(command);
-        checkSecretFileAccessCommand(command);
-      }
-    },
+        await log("info", `Redacted ${count} ${noun} from ${input.tool} output`);
+      },
+      event: async ({ event }) => {
+        if (event.type !== "session.idle") return;
+        if (violations.all().some(({ decision }) => decision !== "block")) {
+          await log("info", violations.summary());
+        }
+      },
+    };
   };
-};
+}
+
+export const CommandBlocker: Plugin = createCommandBlocker();
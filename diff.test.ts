@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { addedLines } from "./diff";
+
+describe("addedLines", () => {
+  it("should treat every line as added without old text", () => {
+    expect(addedLines("", "a\nb")).toEqual([
+      { line: 1, text: "a" },
+      { line: 2, text: "b" },
+    ]);
+  });
+
+  it("should return inserted and changed lines", () => {
+    expect(addedLines("a\nb\nc", "a\nx\nb\nc2")).toEqual([
+      { line: 2, text: "x" },
+      { line: 4, text: "c2" },
+    ]);
+  });
+
+  it("should not report moved duplicates twice", () => {
+    expect(addedLines("a\na", "a\na\na")).toEqual([{ line: 3, text: "a" }]);
+  });
+
+  it("should return nothing for deletions", () => {
+    expect(addedLines("a\nb\nc", "a\nc")).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+export interface AddedLine {
+  // 1-based line number within the new text
+  line: number;
+  text: string;
+}
+
+// Above this many line pairs the diff falls back to treating every new line
+// that does not appear in the old text as added
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Lines of `newText` that are not part of a longest common subsequence with
+// `oldText`, i.e. the lines an edit adds or changes
+export function addedLines(oldText: string, newText: string): AddedLine[] {
+  const oldLines: string[] = oldText ? oldText.split("\n") : [];
+  const newLines: string[] = newText.split("\n");
+  const all: AddedLine[] = newLines.map((text, index) => ({
+    line: index + 1,
+    text,
+  }));
+  if (oldLines.length === 0) return all;
+
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    const old = new Set(oldLines);
+    return all.filter(({ text }) => !old.has(text));
+  }
+
+  // lengths[i][j]: LCS length of oldLines[i..] and newLines[j..]
+  const lengths: number[][] = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array<number>(newLines.length + 1).fill(0)
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const added: AddedLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (j < newLines.length) {
+    if (i < oldLines.length && oldLines[i] === newLines[j]) {
+      i++;
+      j++;
+    } else if (i < oldLines.length && lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      added.push(all[j]);
+      j++;
+    }
+  }
+  return added;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { environmentLeaksOf } from "./environment";
+import { collectInvocations } from "./invocations";
+
+function leaks(command: string): string[] {
+  const isSecret = (name: string): boolean => /TOKEN|SECRET/i.test(name);
+  return collectInvocations(command).flatMap((invocation) =>
+    environmentLeaksOf(
+      invocation.program,
+      invocation.args,
+      invocation.words,
+      invocation.redirects.map((redirect) => redirect.target),
+      isSecret
+    ).map((leak) => leak.kind)
+  );
+}
+
+describe("environmentLeaksOf", () => {
+  it("should detect dumps of the whole environment", () => {
+    for (const command of [
+      "env",
+      "env -0",
+      "printenv",
+      "set",
+      "export -p",
+      "declare -x",
+      "typeset",
+      "env | grep AWS",
+    ]) {
+      expect(leaks(command)).toEqual(["dump"]);
+    }
+  });
+
+  it("should not flag commands that run or set variables", () => {
+    for (const command of [
+      "env NODE_ENV=test bun test",
+      "set -euo pipefail",
+      "export PATH=$HOME/bin:$PATH",
+      "export GITHUB_TOKEN",
+      "declare -f",
+      "declare -i count=0",
+    ]) {
+      expect(leaks(command)).toEqual([]);
+    }
+  });
+
+  it("should detect reads of /proc environ files", () => {
+    expect(leaks("cat /proc/self/environ")).toEqual(["proc-environ"]);
+    expect(leaks("cat /proc/*/environ")).toEqual(["proc-environ"]);
+    expect(leaks("tr '\\0' '\\n' < /proc/1/environ")).toEqual(["proc-environ"]);
+    expect(leaks("cat /proc/self/status")).toEqual([]);
+  });
+
+  it("should detect printed variables named like secrets", () => {
+    expect(leaks("echo $GITHUB_TOKEN")).toEqual(["variable"]);
+    expect(leaks('printf "%s" "${AWS_SECRET:-none}"')).toEqual(["variable"]);
+    expect(leaks('echo "${X:-$API_TOKEN}"')).toEqual(["variable"]);
+    expect(leaks("printenv API_TOKEN")).toEqual(["variable"]);
+    expect(leaks("declare -p API_TOKEN")).toEqual(["variable"]);
+    expect(leaks("echo $PATH $HOME")).toEqual([]);
+    expect(leaks("echo '$API_TOKEN'")).toEqual([]);
+    expect(leaks('curl -H "Authorization: Bearer $API_TOKEN" x')).toEqual([]);
+    expect(leaks("printenv PATH")).toEqual([]);
+  });
+});
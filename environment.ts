@@ -0,0 +1,128 @@
+import type { Word, WordPart } from "./shell-parser";
+
+// Commands that print environment variables, and with them the secrets they
+// hold, without reading any file the secret file globs could catch
+
+export interface EnvironmentLeak {
+  // The sub-rule: dump, proc-environ or variable
+  kind: string;
+  description: string;
+  // Index of the offending argument, when a single one is to blame
+  index?: number;
+}
+
+// Programs that print their arguments
+const PRINT_COMMANDS: readonly string[] = ["echo", "printf"];
+
+// Builtins that list variables with their values when given no names
+const DECLARE_COMMANDS: readonly string[] = ["declare", "typeset", "export"];
+
+// Options of env that take a value
+const ENV_OPTIONS_WITH_VALUE: readonly string[] = [
+  "-u",
+  "--unset",
+  "-C",
+  "--chdir",
+];
+
+// The environment of any process, or of one of its threads
+const PROC_ENVIRON = /^\/proc\/[^/]+\/(?:task\/[^/]+\/)?environ$/;
+
+// The names of the variables a word expands, including those in defaults
+// such as `${A:-$B}`
+function parameterNamesOf(parts: WordPart[]): string[] {
+  return parts.flatMap((part) => {
+    if (part.type !== "parameter") return [];
+    return [part.name, ...parameterNamesOf(part.operand)];
+  });
+}
+
+// Whether env lists the environment instead of running a command
+function envDumps(args: string[]): boolean {
+  for (let i = 0; i < args.length; i++) {
+    if (ENV_OPTIONS_WITH_VALUE.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith("-") && !/^\w+=/.test(args[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function dump(command: string): EnvironmentLeak {
+  return {
+    kind: "dump",
+    description: `\`${command}\` prints every environment variable, including secrets. Print the variables you need by name instead, such as \`printenv PATH\`.`,
+  };
+}
+
+function procLeak(path: string, index?: number): EnvironmentLeak {
+  return {
+    kind: "proc-environ",
+    description: `\`${path}\` holds every environment variable of a process, including secrets.`,
+    index,
+  };
+}
+
+function variableLeak(name: string, index: number): EnvironmentLeak {
+  return {
+    kind: "variable",
+    description: `\`$${name}\` is named like a secret. Check whether it is set with \`[ -n "$${name}" ]\` instead of printing it.`,
+    index,
+  };
+}
+
+// Ways a command prints the environment: whole dumps, reads of
+// /proc/<pid>/environ, and printed variables that `isSecret` names a secret
+export function environmentLeaksOf(
+  program: string,
+  args: string[],
+  words: Word[],
+  redirects: string[],
+  isSecret: (name: string) => boolean
+): EnvironmentLeak[] {
+  const leaks: EnvironmentLeak[] = [];
+  const options: boolean = args.every((arg) => arg.startsWith("-"));
+
+  if (program === "env" && envDumps(args)) {
+    leaks.push(dump("env"));
+  } else if (program === "printenv" && options) {
+    leaks.push(dump("printenv"));
+  } else if (program === "set" && args.length === 0) {
+    leaks.push(dump("set"));
+  } else if (
+    DECLARE_COMMANDS.includes(program) &&
+    options &&
+    !args.some((arg) => /^-[a-zA-Z]*[fF]/.test(arg))
+  ) {
+    leaks.push(dump([program, ...args].join(" ")));
+  }
+
+  // `printenv NAME` and `declare -p NAME` print the named variables
+  if (
+    program === "printenv" ||
+    (DECLARE_COMMANDS.includes(program) &&
+      args.some((arg) => /^-[a-zA-Z]*p/.test(arg)))
+  ) {
+    args.forEach((arg, index) => {
+      if (/^[A-Za-z_]\w*$/.test(arg) && isSecret(arg)) {
+        leaks.push(variableLeak(arg, index));
+      }
+    });
+  }
+  if (PRINT_COMMANDS.includes(program)) {
+    words.slice(1).forEach((word, index) => {
+      const name: string | undefined =
+        parameterNamesOf(word.parts).find(isSecret);
+      if (name) leaks.push(variableLeak(name, index));
+    });
+  }
+
+  args.forEach((arg, index) => {
+    if (PROC_ENVIRON.test(arg)) leaks.push(procLeak(arg, index));
+  });
+  for (const target of redirects) {
+    if (PROC_ENVIRON.test(target)) leaks.push(procLeak(target));
+  }
+  return leaks;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { flakeInputsOf } from "./flake-inputs";
+
+const FLAKE = `{
+  description = "demo";
+  inputs = {
+    nixpkgs.url = "github:NixOS/nixpkgs/nixos-24.05";
+    local.url = "./local"; # a comment with url = "./nope"
+    other = { url = "/home/me/other"; flake = false; };
+    generated.url = "\${self}/x";
+  };
+  inputs.tools.url = ''path:./tools'';
+  outputs = { self, nixpkgs, ... }: {
+    packages.x86_64-linux.src = nixpkgs.fetchurl { url = "mirror://gnu/x"; };
+    url = "./not-an-input";
+  };
+}`;
+
+describe("Flake inputs", () => {
+  it("should find input URLs in every binding form", () => {
+    expect(
+      flakeInputsOf(FLAKE).map(({ name, url, line }) => ({ name, url, line }))
+    ).toEqual([
+      { name: "nixpkgs", url: "github:NixOS/nixpkgs/nixos-24.05", line: 4 },
+      { name: "local", url: "./local", line: 5 },
+      { name: "other", url: "/home/me/other", line: 6 },
+      { name: "tools", url: "path:./tools", line: 9 },
+    ]);
+  });
+
+  it("should report the offsets of each URL", () => {
+    const [, local] = flakeInputsOf(FLAKE);
+    expect(FLAKE.slice(local.start, local.end)).toBe("./local");
+  });
+
+  it("should find URLs at the top of an edited fragment", () => {
+    expect(
+      flakeInputsOf('    foo.url = "./a";\n    url = "/b";\n    bar.flake = false;', true)
+    ).toMatchObject([
+      { name: "foo", url: "./a", line: 1 },
+      { name: undefined, url: "/b", line: 2 },
+    ]);
+    expect(flakeInputsOf('url = "/b";')).toEqual([]);
+  });
+});
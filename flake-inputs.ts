@@ -0,0 +1,172 @@
+// Find the input URLs declared in flake.nix text, by tracking the attribute
+// path of each binding through nested attribute sets
+
+export interface FlakeInput {
+  // The input name, when the binding's place in the file is known
+  name?: string;
+  url: string;
+  // 1-based line of the URL string
+  line: number;
+  start: number;
+  end: number;
+}
+
+interface Token {
+  // "name", "string", or the punctuation character itself
+  type: string;
+  value: string;
+  start: number;
+  end: number;
+  // Strings with `${...}` interpolation cannot be checked
+  interpolated?: boolean;
+}
+
+// The end of the `"..."` or `''...''` string starting at `start`
+function skipString(
+  text: string,
+  start: number
+): { end: number; interpolated: boolean } {
+  const indented: boolean = text.startsWith("''", start);
+  const escape: RegExp = indented ? /^''[$\\']/ : /^\\./s;
+  const close: string = indented ? "''" : '"';
+  let interpolated = false;
+  let i: number = start + close.length;
+  while (i < text.length) {
+    const escaped: RegExpExecArray | null = escape.exec(text.slice(i, i + 3));
+    if (escaped) {
+      i += escaped[0].length;
+    } else if (text.startsWith(close, i)) {
+      return { end: i + close.length, interpolated };
+    } else if (text.startsWith("${", i)) {
+      interpolated = true;
+      let depth = 0;
+      for (; i < text.length; i++) {
+        if (text[i] === "{") depth++;
+        if (text[i] === "}" && --depth === 0) break;
+      }
+      i++;
+    } else {
+      i++;
+    }
+  }
+  return { end: text.length, interpolated };
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const c: string = text[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "#") {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (text.startsWith("/*", i)) {
+      const end: number = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else if (c === '"' || text.startsWith("''", i)) {
+      const { end, interpolated } = skipString(text, i);
+      const quote: number = c === '"' ? 1 : 2;
+      tokens.push({
+        type: "string",
+        value: text.slice(i + quote, end - quote),
+        start: i + quote,
+        end: end - quote,
+        interpolated,
+      });
+      i = end;
+    } else if (/[a-zA-Z_]/.test(c)) {
+      const name: string = /^[a-zA-Z_][a-zA-Z0-9_'-]*/.exec(text.slice(i))![0];
+      tokens.push({ type: "name", value: name, start: i, end: i + name.length });
+      i += name.length;
+    } else {
+      tokens.push({ type: c, value: c, start: i, end: i + 1 });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// Flake inputs declared in the text: `inputs.x.url = "..."`, `inputs.x =
+// { url = "..."; }` and `inputs = { x.url = "..."; }`. An edit replaces a
+// fragment of the file, so with `fragment` the text may start inside the
+// inputs set, and `url` and `<name>.url` bindings at its top are returned too.
+export function flakeInputsOf(text: string, fragment = false): FlakeInput[] {
+  const tokens: Token[] = tokenize(text);
+  const inputs: FlakeInput[] = [];
+  // Attribute path of each enclosing set, or null inside sets that are not
+  // attributes of the flake, such as function arguments or `fetchurl { }`
+  const frames: (string[] | null)[] = [[]];
+  let expectsBinding = true;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token: Token = tokens[i];
+    const prefix: string[] | null = frames[frames.length - 1];
+
+    if (expectsBinding && (token.type === "name" || token.type === "string")) {
+      // Read `a.b."c"` up to `=`
+      const path: string[] = [token.value];
+      let j: number = i + 1;
+      while (
+        tokens[j]?.type === "." &&
+        ["name", "string"].includes(tokens[j + 1]?.type)
+      ) {
+        path.push(tokens[j + 1].value);
+        j += 2;
+      }
+      const keyword: boolean = ["let", "in", "inherit"].includes(token.value);
+      if (tokens[j]?.type === "=" && !keyword) {
+        const full: string[] | null = prefix ? [...prefix, ...path] : null;
+        const value: Token | undefined = tokens[j + 1];
+        if (value?.type === "{") {
+          frames.push(full);
+          i = j + 1;
+          continue;
+        }
+        if (value?.type === "string" && !value.interpolated && full) {
+          const input = inputOf(full, fragment);
+          if (input) {
+            inputs.push({
+              name: input.name,
+              url: value.value,
+              line: text.slice(0, value.start).split("\n").length,
+              start: value.start,
+              end: value.end,
+            });
+          }
+        }
+        expectsBinding = false;
+        i = j;
+        continue;
+      }
+    }
+
+    if (token.type === "{") {
+      // The set that makes up the whole file is the flake itself
+      frames.push(i === 0 ? prefix : null);
+      expectsBinding = true;
+    } else if (token.type === "}") {
+      if (frames.length > 1) frames.pop();
+      expectsBinding = false;
+    } else if (token.type === ";" || token.value === "let") {
+      expectsBinding = true;
+    } else {
+      expectsBinding = false;
+    }
+  }
+  return inputs;
+}
+
+// Whether a binding path is an input URL, and of which input
+function inputOf(
+  path: string[],
+  fragment: boolean
+): { name?: string } | undefined {
+  if (path[path.length - 1] !== "url") return undefined;
+  if (path.length === 3 && path[0] === "inputs") return { name: path[1] };
+  // Within a fragment, `x.url` or `url` may sit inside the inputs set
+  if (fragment && path.length <= 2 && !path.includes("inputs")) {
+    return { name: path.length === 2 ? path[0] : undefined };
+  }
+  return undefined;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { gitTiersOf, parseGitCommand, unsafeGitVariableOf } from "./git";
+
+function tiers(command: string): string[] | undefined {
+  return gitTiersOf(parseGitCommand(command.split(" ").slice(1)));
+}
+
+describe("Git", () => {
+  describe("parseGitCommand", () => {
+    it("should separate global options from the subcommand", () => {
+      expect(
+        parseGitCommand(["-C", "sub", "--no-pager", "-c", "Color.UI=auto", "log", "-1"])
+      ).toEqual({
+        globalOptions: ["-C", "sub", "--no-pager", "-c", "Color.UI=auto"],
+        config: { "color.ui": "auto" },
+        subcommand: "log",
+        args: ["-1"],
+      });
+    });
+  });
+
+  describe("gitTiersOf", () => {
+    it("should classify read-only commands regardless of global options", () => {
+      expect(tiers("git -C sub status")).toEqual(["read-only"]);
+      expect(tiers("git --no-pager log --oneline")).toEqual(["read-only"]);
+      expect(tiers("git --version")).toEqual(["read-only"]);
+    });
+
+    it("should classify listing forms of ref commands as read-only", () => {
+      expect(tiers("git branch")).toEqual(["read-only"]);
+      expect(tiers("git branch --list feature/*")).toEqual(["read-only"]);
+      expect(tiers("git branch -a --contains HEAD")).toEqual(["read-only"]);
+      expect(tiers("git tag -l v1.*")).toEqual(["read-only"]);
+      expect(tiers("git stash list")).toEqual(["read-only"]);
+      expect(tiers("git remote -v")).toEqual(["read-only"]);
+      expect(tiers("git config --get user.email")).toEqual(["read-only"]);
+      expect(tiers("git config user.email")).toEqual(["read-only"]);
+    });
+
+    it("should classify commands that write files as local writes", () => {
+      expect(tiers("git log --output=/tmp/x")).toEqual(["local-write"]);
+      expect(tiers("git diff --output file.diff")).toEqual(["local-write"]);
+      expect(tiers("git format-patch -1")).toEqual(["local-write"]);
+      expect(tiers("git format-patch -1 --stdout")).toEqual(["read-only"]);
+    });
+
+    it("should classify local writes", () => {
+      expect(tiers("git add .")).toEqual(["local-write"]);
+      expect(tiers("git commit -m x")).toEqual(["local-write"]);
+      expect(tiers("git stash")).toEqual(["local-write"]);
+      expect(tiers("git branch feature")).toEqual(["local-write"]);
+      expect(tiers("git config user.email a@b.c")).toEqual(["local-write"]);
+    });
+
+    it("should classify history rewrites", () => {
+      expect(tiers("git commit --amend")).toEqual(["history-rewrite"]);
+      expect(tiers("git reset --hard HEAD~1")).toEqual(["history-rewrite"]);
+      expect(tiers("git rebase -i main")).toEqual(["history-rewrite"]);
+      expect(tiers("git branch -D feature")).toEqual(["history-rewrite"]);
+      expect(tiers("git stash drop")).toEqual(["history-rewrite"]);
+    });
+
+    it("should classify remote writes, and force pushes as rewrites too", () => {
+      expect(tiers("git fetch origin")).toEqual(["remote-write"]);
+      expect(tiers("git push origin main")).toEqual(["remote-write"]);
+      expect(tiers("git push --force-with-lease")).toEqual([
+        "remote-write",
+        "history-rewrite",
+      ]);
+      expect(tiers("git push origin +main")).toEqual([
+        "remote-write",
+        "history-rewrite",
+      ]);
+    });
+
+    it("should not classify unknown subcommands or unsafe config", () => {
+      expect(tiers("git my-alias")).toBeUndefined();
+      expect(tiers("git -c core.pager=sh status")).toBeUndefined();
+      expect(tiers("git -c alias.st=!rm status")).toBeUndefined();
+      expect(tiers("git --config-env=core.pager=P log")).toBeUndefined();
+      expect(tiers("git --config-env core.pager=P log")).toBeUndefined();
+      expect(tiers("git --config-env=user.name=NAME log")).toEqual([
+        "read-only",
+      ]);
+    });
+
+    it("should find variables that make git run programs", () => {
+      expect(unsafeGitVariableOf({ GIT_PAGER: "less" })).toBe("GIT_PAGER");
+      expect(
+        unsafeGitVariableOf({
+          GIT_CONFIG_COUNT: "1",
+          GIT_CONFIG_KEY_0: "Core.Pager",
+        })
+      ).toBe("GIT_CONFIG_KEY_0");
+      expect(unsafeGitVariableOf({ GIT_CONFIG_KEY_0: undefined })).toBe(
+        "GIT_CONFIG_KEY_0"
+      );
+      expect(
+        unsafeGitVariableOf({
+          GIT_CONFIG_KEY_0: "user.name",
+          GIT_AUTHOR_NAME: "x",
+        })
+      ).toBeUndefined();
+    });
+
+    it("should not classify grep opening files in a pager", () => {
+      expect(tiers("git grep -Ovim foo")).toBeUndefined();
+      expect(tiers("git grep -iO foo")).toBeUndefined();
+      expect(tiers("git grep --open-files-in-pager=vim foo")).toBeUndefined();
+      expect(tiers("git grep --open-files-in-pager foo")).toBeUndefined();
+      expect(tiers("git grep -n foo -- -O")).toEqual(["read-only"]);
+    });
+  });
+});
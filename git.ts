@@ -0,0 +1,337 @@
+// A model of git invocations (global options, subcommand, flags), classified
+// into the permission tiers that the policy grants
+
+export type GitTier =
+  | "read-only"
+  | "local-write"
+  | "history-rewrite"
+  | "remote-write";
+
+export const GIT_TIERS: readonly GitTier[] = [
+  "read-only",
+  "local-write",
+  "history-rewrite",
+  "remote-write",
+];
+
+export interface GitCommand {
+  globalOptions: string[];
+  // `-c name=value` and `--config-env name=envvar` overrides, keyed by
+  // lowercased name
+  config: Record<string, string>;
+  subcommand?: string;
+  args: string[];
+}
+
+// Global options that take the next word as their value
+const GLOBAL_OPTIONS_WITH_VALUE: readonly string[] = [
+  "-C",
+  "-c",
+  "--git-dir",
+  "--work-tree",
+  "--namespace",
+  "--super-prefix",
+  "--config-env",
+  "--list-cmds",
+  "--attr-source",
+];
+
+export function parseGitCommand(args: string[]): GitCommand {
+  const command: GitCommand = { globalOptions: [], config: {}, args: [] };
+  const override = (setting: string, value: (rest: string) => string) => {
+    const [name, ...rest] = setting.split("=");
+    command.config[name.toLowerCase()] = value(rest.join("="));
+  };
+  let i = 0;
+  for (; i < args.length && args[i].startsWith("-"); i++) {
+    const option: string = args[i];
+    command.globalOptions.push(option);
+    // `--config-env=name=envvar` reads the value from the environment
+    if (option.startsWith("--config-env=")) {
+      override(option.slice("--config-env=".length), (env) => `$${env}`);
+    }
+    if (GLOBAL_OPTIONS_WITH_VALUE.includes(option) && i + 1 < args.length) {
+      const value: string = args[++i];
+      command.globalOptions.push(value);
+      if (option === "-c") override(value, (rest) => rest);
+      if (option === "--config-env") override(value, (env) => `$${env}`);
+    }
+  }
+  command.subcommand = args[i];
+  command.args = args.slice(i + 1);
+  return command;
+}
+
+// Config overrides that make git run arbitrary programs
+const UNSAFE_CONFIG: readonly RegExp[] = [
+  /^alias\./,
+  /^core\.(?:pager|editor|sshcommand|fsmonitor|hookspath|gitproxy|askpass)$/,
+  /^(?:sequence\.editor|gpg\.program|credential\.helper|diff\.external)$/,
+  /^(?:pager|gpg)\./,
+  /\.(?:textconv|command|cmd|clean|smudge|process|driver)$/,
+];
+
+// Variables that make git run arbitrary programs or read config from
+// elsewhere
+const UNSAFE_ENVIRONMENT: readonly RegExp[] = [
+  /^GIT_(?:PAGER|EDITOR|SEQUENCE_EDITOR|EXTERNAL_DIFF|ASKPASS|PROXY_COMMAND)$/,
+  /^GIT_(?:SSH|SSH_COMMAND|CONFIG|CONFIG_GLOBAL|CONFIG_SYSTEM)$/,
+  /^GIT_CONFIG_PARAMETERS$/,
+  /^(?:PAGER|EDITOR|VISUAL|SSH_ASKPASS)$/,
+];
+
+// The variable that makes a git invocation unsafe, if any. Config given as
+// `GIT_CONFIG_KEY_<n>` is held to the same rules as `-c`.
+export function unsafeGitVariableOf(
+  environment: Record<string, string | undefined>
+): string | undefined {
+  return Object.keys(environment).find((name) => {
+    if (UNSAFE_ENVIRONMENT.some((pattern) => pattern.test(name))) return true;
+    if (!/^GIT_CONFIG_KEY_\d+$/.test(name)) return false;
+    const key: string | undefined = environment[name]?.toLowerCase();
+    return key === undefined || isUnsafeConfig(key);
+  });
+}
+
+function isUnsafeConfig(name: string): boolean {
+  return UNSAFE_CONFIG.some((pattern) => pattern.test(name));
+}
+
+const READ_ONLY_SUBCOMMANDS: readonly string[] = [
+  "blame",
+  "cat-file",
+  "check-attr",
+  "check-ignore",
+  "cherry",
+  "count-objects",
+  "describe",
+  "diff",
+  "diff-files",
+  "diff-index",
+  "diff-tree",
+  "for-each-ref",
+  "grep",
+  "help",
+  "log",
+  "ls-files",
+  "ls-remote",
+  "ls-tree",
+  "merge-base",
+  "name-rev",
+  "range-diff",
+  "rev-list",
+  "rev-parse",
+  "shortlog",
+  "show",
+  "show-branch",
+  "show-ref",
+  "status",
+  "var",
+  "version",
+  "whatchanged",
+];
+
+const LOCAL_WRITE_SUBCOMMANDS: readonly string[] = [
+  "add",
+  "am",
+  "apply",
+  "checkout",
+  "cherry-pick",
+  "commit",
+  "init",
+  "merge",
+  "mv",
+  "restore",
+  "revert",
+  "rm",
+  "switch",
+];
+
+const HISTORY_REWRITE_SUBCOMMANDS: readonly string[] = [
+  "clean",
+  "filter-branch",
+  "filter-repo",
+  "gc",
+  "prune",
+  "rebase",
+  "replace",
+  "reset",
+  "update-ref",
+];
+
+const REMOTE_WRITE_SUBCOMMANDS: readonly string[] = [
+  "clone",
+  "fetch",
+  "pull",
+  "push",
+  "submodule",
+];
+
+// Flags of `git branch` and `git tag` that only list or filter refs, and
+// those among them that take the next word as their value
+const LISTING_FLAGS: readonly string[] = [
+  "-l",
+  "--list",
+  "-a",
+  "--all",
+  "-r",
+  "--remotes",
+  "-v",
+  "-vv",
+  "--verbose",
+  "-n",
+  "--show-current",
+  "-i",
+  "--ignore-case",
+  "--color",
+  "--no-color",
+  "--column",
+  "--no-column",
+  "--contains",
+  "--no-contains",
+  "--merged",
+  "--no-merged",
+  "--points-at",
+  "--format",
+  "--sort",
+];
+const LISTING_VALUE_FLAGS: readonly string[] = [
+  "--contains",
+  "--no-contains",
+  "--merged",
+  "--no-merged",
+  "--points-at",
+  "--format",
+  "--sort",
+];
+
+// `git branch` and `git tag` list when given only listing flags, or when
+// `--list` turns their positional arguments into patterns
+function isRefListing(args: string[]): boolean {
+  const listing: boolean = args.includes("-l") || args.includes("--list");
+  for (let i = 0; i < args.length; i++) {
+    const [flag] = args[i].split("=");
+    if (!args[i].startsWith("-")) {
+      if (!listing) return false;
+    } else if (!LISTING_FLAGS.includes(flag) && !/^-n\d+$/.test(flag)) {
+      return false;
+    } else if (LISTING_VALUE_FLAGS.includes(args[i])) {
+      i++;
+    }
+  }
+  return true;
+}
+
+const CONFIG_READ_FLAGS: readonly string[] = [
+  "-l",
+  "--list",
+  "--get",
+  "--get-all",
+  "--get-regexp",
+  "--get-urlmatch",
+  "--get-color",
+  "--get-colorbool",
+];
+
+// Subcommands whose tier depends on their action or flags
+const CLASSIFIERS: Record<string, (args: string[]) => GitTier[]> = {
+  branch: (args) => {
+    if (isRefListing(args)) return ["read-only"];
+    const forced: boolean = args.some((arg) => ["-D", "-M", "-C"].includes(arg));
+    return forced ? ["history-rewrite"] : ["local-write"];
+  },
+  tag: (args) => (isRefListing(args) ? ["read-only"] : ["local-write"]),
+  remote: (args) =>
+    args.length === 0 ||
+    args.every((arg) => arg === "-v" || arg === "--verbose") ||
+    ["show", "get-url"].includes(args[0])
+      ? ["read-only"]
+      : ["local-write"],
+  stash: (args) => {
+    if (["list", "show"].includes(args[0])) return ["read-only"];
+    if (["drop", "clear"].includes(args[0])) return ["history-rewrite"];
+    return ["local-write"];
+  },
+  reflog: (args) =>
+    ["expire", "delete"].includes(args[0])
+      ? ["history-rewrite"]
+      : ["read-only"],
+  notes: (args) =>
+    args.length === 0 || ["list", "show"].includes(args[0])
+      ? ["read-only"]
+      : ["local-write"],
+  worktree: (args) => (args[0] === "list" ? ["read-only"] : ["local-write"]),
+  config: (args) => {
+    if (["get", "list"].includes(args[0])) return ["read-only"];
+    if (args.some((arg) => CONFIG_READ_FLAGS.includes(arg.split("=")[0]))) {
+      return ["read-only"];
+    }
+    // `git config <name>` reads, `git config <name> <value>` writes
+    const positional: string[] = args.filter((arg) => !arg.startsWith("-"));
+    const flags: string[] = args.filter((arg) => arg.startsWith("-"));
+    return positional.length === 1 &&
+      flags.every((flag) => ["--global", "--local", "--system"].includes(flag))
+      ? ["read-only"]
+      : ["local-write"];
+  },
+  commit: (args) =>
+    args.some((arg) => arg === "--amend" || arg.startsWith("--fixup=amend:"))
+      ? ["history-rewrite"]
+      : ["local-write"],
+  push: (args) =>
+    args.some(
+      (arg) =>
+        ["-f", "--force", "-d", "--delete", "--mirror", "--prune"].includes(arg) ||
+        arg.startsWith("--force-with-lease") ||
+        arg.startsWith("+")
+    )
+      ? ["remote-write", "history-rewrite"]
+      : ["remote-write"],
+  // Writes patch files unless printing them
+  "format-patch": (args) =>
+    args.includes("--stdout") ? ["read-only"] : ["local-write"],
+  archive: (args) =>
+    args.some((arg) => arg.startsWith("-o") || arg.startsWith("--output"))
+      ? ["local-write"]
+      : ["read-only"],
+};
+
+// Whether `git grep` is given `-O`, also in a cluster such as `-iO`, or
+// `--open-files-in-pager`
+function opensFilesInPager(args: string[]): boolean {
+  const end: number = args.indexOf("--");
+  return (end === -1 ? args : args.slice(0, end)).some(
+    (arg) =>
+      /^-[^-]*O/.test(arg) ||
+      arg === "--open-files-in-pager" ||
+      arg.startsWith("--open-files-in-pager=")
+  );
+}
+
+// The tiers a git invocation needs, or undefined when it cannot be
+// classified (unknown subcommands and aliases, unsafe `-c` overrides,
+// `git grep -O`)
+export function gitTiersOf(command: GitCommand): GitTier[] | undefined {
+  const { subcommand, args } = command;
+  if (Object.keys(command.config).some(isUnsafeConfig)) return undefined;
+  if (subcommand === undefined) return ["read-only"];
+
+  if (Object.hasOwn(CLASSIFIERS, subcommand)) {
+    return CLASSIFIERS[subcommand](args);
+  }
+  // `git grep -O<cmd>` opens the matching files in any program
+  if (subcommand === "grep" && opensFilesInPager(args)) return undefined;
+  if (READ_ONLY_SUBCOMMANDS.includes(subcommand)) {
+    // e.g. `git diff --output=patch.diff` writes a file
+    const writes: boolean = args.some(
+      (arg) => arg === "--output" || arg.startsWith("--output=")
+    );
+    return writes ? ["local-write"] : ["read-only"];
+  }
+  if (LOCAL_WRITE_SUBCOMMANDS.includes(subcommand)) return ["local-write"];
+  if (HISTORY_REWRITE_SUBCOMMANDS.includes(subcommand)) {
+    return ["history-rewrite"];
+  }
+  if (REMOTE_WRITE_SUBCOMMANDS.includes(subcommand)) return ["remote-write"];
+  return undefined;
+}
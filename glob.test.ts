@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { matchesGlob } from "./glob";
+
+describe("Glob", () => {
+  it("should match wildcards within one segment", () => {
+    expect(matchesGlob("*.ts", "index.ts")).toBe(true);
+    expect(matchesGlob("*.ts", "src/index.ts")).toBe(false);
+    expect(matchesGlob("src/?.ts", "src/a.ts")).toBe(true);
+    expect(matchesGlob("src/?.ts", "src/ab.ts")).toBe(false);
+    expect(matchesGlob("*auth*", "src/auth/login.ts")).toBe(false);
+  });
+
+  it("should match any number of segments with **", () => {
+    expect(matchesGlob("**/.env*", ".env")).toBe(true);
+    expect(matchesGlob("**/.env*", "app/config/.env.local")).toBe(true);
+    expect(matchesGlob("**/.env*", "/home/me/app/.env")).toBe(true);
+    expect(matchesGlob("db/**", "db/migrations/001.sql")).toBe(true);
+    expect(matchesGlob("db/**/*.sql", "db/001.sql")).toBe(true);
+    expect(matchesGlob("db/**/*.sql", "db/a/b/001.sql")).toBe(true);
+    expect(matchesGlob("db/**/*.sql", "dbx/001.sql")).toBe(false);
+    expect(matchesGlob("**", "a/b/c")).toBe(true);
+  });
+
+  it("should expand braces", () => {
+    expect(matchesGlob("*.{ts,tsx}", "App.tsx")).toBe(true);
+    expect(matchesGlob("*.{ts,tsx}", "App.js")).toBe(false);
+    expect(matchesGlob("v{1..3}.key", "v2.key")).toBe(true);
+  });
+
+  it("should match character classes", () => {
+    expect(matchesGlob("id_[rd]sa", "id_rsa")).toBe(true);
+    expect(matchesGlob("id_[!rd]sa", "id_rsa")).toBe(false);
+    expect(matchesGlob("v[0-9].pem", "v7.pem")).toBe(true);
+    expect(matchesGlob("v[[:digit:]].pem", "v7.pem")).toBe(true);
+    expect(matchesGlob("a[]]b", "a]b")).toBe(true);
+    expect(matchesGlob("a[/]b", "a/b")).toBe(false);
+    expect(matchesGlob("a[b", "a[b")).toBe(true);
+  });
+
+  it("should escape special characters", () => {
+    expect(matchesGlob("\\*.txt", "*.txt")).toBe(true);
+    expect(matchesGlob("\\*.txt", "a.txt")).toBe(false);
+    expect(matchesGlob("a+b(1).txt", "a+b(1).txt")).toBe(true);
+  });
+
+  it("should only match hidden files with a literal dot by default", () => {
+    expect(matchesGlob("*", ".env")).toBe(false);
+    expect(matchesGlob("**/*.pem", ".ssh/key.pem")).toBe(false);
+    expect(matchesGlob(".*", ".env")).toBe(true);
+    expect(matchesGlob("*", ".env", { dot: true })).toBe(true);
+    expect(matchesGlob("**/*.pem", ".ssh/key.pem", { dot: true })).toBe(true);
+  });
+
+  it("should ignore case when asked", () => {
+    expect(matchesGlob(".env*", ".ENV")).toBe(false);
+    expect(matchesGlob(".env*", ".ENV", { ignoreCase: true })).toBe(true);
+  });
+});
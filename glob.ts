@@ -0,0 +1,154 @@
+import { expandBraces } from "./normalize";
+
+// Glob matching for file paths: `*`, `?` and `[...]` match within one path
+// segment, `**` matches any number of segments, braces expand to
+// alternatives, and a backslash escapes the next character
+
+export interface GlobOptions {
+  // Whether wildcards match names starting with a dot, as in `*` for `.env`
+  dot?: boolean;
+  // Whether letters match regardless of case
+  ignoreCase?: boolean;
+}
+
+// POSIX character classes usable inside brackets, as in `[[:digit:]]`
+const CHARACTER_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  blank: " \\t",
+  digit: "0-9",
+  lower: "a-z",
+  punct: "!-\\/:-@\\[-`{-~",
+  space: "\\s",
+  upper: "A-Z",
+  word: "\\w",
+  xdigit: "0-9a-fA-F",
+};
+
+const compiled = new Map<string, RegExp>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+}
+
+// The bracket expression starting at `start`, as a regular expression that
+// never matches `/`, and the index after it. An unterminated bracket is a
+// literal `[`.
+function bracketOf(
+  segment: string,
+  start: number
+): { source: string; end: number } | undefined {
+  let i: number = start + 1;
+  const negated: boolean = segment[i] === "!" || segment[i] === "^";
+  if (negated) i++;
+
+  let body = "";
+  for (let first = true; i < segment.length; first = false) {
+    const c: string = segment[i];
+    if (c === "]" && !first) {
+      return {
+        source: negated ? `[^/${body}]` : `(?!/)[${body}]`,
+        end: i + 1,
+      };
+    }
+    const named: RegExpExecArray | null = /^\[:(\w+):\]/.exec(
+      segment.slice(i)
+    );
+    if (named && Object.hasOwn(CHARACTER_CLASSES, named[1])) {
+      body += CHARACTER_CLASSES[named[1]];
+      i += named[0].length;
+      continue;
+    }
+    const literal: string = c === "\\" ? segment[++i] ?? "\\" : c;
+    const range: boolean =
+      segment[i + 1] === "-" &&
+      i + 2 < segment.length &&
+      segment[i + 2] !== "]";
+    if (range) {
+      const escaped: boolean = segment[i + 2] === "\\";
+      const to: string = escaped ? segment[i + 3] ?? "\\" : segment[i + 2];
+      body += `${escapeRegExp(literal)}-${escapeRegExp(to)}`;
+      i += escaped ? 4 : 3;
+    } else {
+      body += escapeRegExp(literal);
+      i++;
+    }
+  }
+  return undefined;
+}
+
+// One path segment other than `**`
+function segmentSource(segment: string, dot: boolean): string {
+  let source = "";
+  for (let i = 0; i < segment.length; ) {
+    const c: string = segment[i];
+    if (c === "*") {
+      // `**` within a segment is the same as `*`
+      while (segment[i] === "*") i++;
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+      i++;
+    } else if (c === "[") {
+      const bracket = bracketOf(segment, i);
+      source += bracket ? bracket.source : "\\[";
+      i = bracket ? bracket.end : i + 1;
+    } else if (c === "\\" && i + 1 < segment.length) {
+      source += escapeRegExp(segment[i + 1]);
+      i += 2;
+    } else {
+      source += escapeRegExp(c);
+      i++;
+    }
+  }
+  // Only a literal dot matches the dot starting a hidden file's name
+  const wildcard: boolean =
+    /^[*?[]/.test(segment) && !segment.startsWith("[.]");
+  return !dot && wildcard ? `(?!\\.)${source}` : source;
+}
+
+// A pattern without braces
+function patternSource(pattern: string, dot: boolean): string {
+  const any: string = dot ? "[^/]*" : "(?!\\.)[^/]*";
+  const segments: string[] = pattern.split("/");
+  let source = "";
+  segments.forEach((segment, index) => {
+    const separator: string =
+      index > 0 && segments[index - 1] !== "**" ? "/" : "";
+    if (segment !== "**") {
+      source += separator + segmentSource(segment, dot);
+    } else if (segments.length === 1) {
+      source += `${any}(?:/${any})*`;
+    } else if (index === segments.length - 1) {
+      source += `(?:/${any})+`;
+    } else {
+      source += `${separator}(?:${any}/)*`;
+    }
+  });
+  return source;
+}
+
+export function globToRegExp(
+  pattern: string,
+  options: GlobOptions = {}
+): RegExp {
+  const flags: string = options.ignoreCase ? "i" : "";
+  const key: string = `${options.dot ? "dot" : ""}/${flags}/${pattern}`;
+  let regex: RegExp | undefined = compiled.get(key);
+  if (!regex) {
+    const alternatives: string[] = expandBraces(pattern).map((alternative) =>
+      patternSource(alternative, options.dot ?? false)
+    );
+    regex = new RegExp(`^(?:${alternatives.join("|")})$`, flags);
+    compiled.set(key, regex);
+  }
+  return regex;
+}
+
+export function matchesGlob(
+  pattern: string,
+  path: string,
+  options: GlobOptions = {}
+): boolean {
+  return globToRegExp(pattern, options).test(path);
+}
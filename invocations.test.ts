@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeCommand,
+  collectInvocations,
+  MAX_NESTING,
+} from "./invocations";
+import type { WrapperDefinition } from "./policy";
+
+const WRAPPERS: Record<string, WrapperDefinition> = {
+  sudo: { options: { "-u": 1 }, queries: ["-l"] },
+  env: { options: { "-u": 1, "-S": 1 }, split: ["-S"] },
+  exec: { options: { "-a": 1 } },
+  timeout: { options: { "-s": 1 }, operands: 1 },
+  find: { exec: ["-exec"] },
+  watch: { options: { "-n": 1 }, shell: true },
+};
+
+function wrapped(command: string): string[] {
+  return collectInvocations(command, WRAPPERS).map(({ program, args }) =>
+    [program, ...args].join(" ")
+  );
+}
+
+function programs(command: string): { name: string; host?: string }[] {
+  return collectInvocations(command).map(({ name, host }) =>
+    host ? { name, host } : { name }
+  );
+}
+
+describe("Invocations", () => {
+  describe("hosts", () => {
+    it("should add the command a host runs as its own invocation", () => {
+      expect(programs("uv run --with rich python -c 1")).toEqual([
+        { name: "uv" },
+        { name: "python", host: "uv run" },
+      ]);
+      expect(programs("conda run -n ml python train.py")).toEqual([
+        { name: "conda" },
+        { name: "python", host: "conda run" },
+      ]);
+      expect(programs("bun --bun node server.js")).toEqual([
+        { name: "bun" },
+        { name: "node", host: "bun --bun" },
+      ]);
+    });
+
+    it("should resolve hosts inside hosts", () => {
+      expect(programs("uv tool run bunx npm -v")).toEqual([
+        { name: "uv" },
+        { name: "bunx", host: "uv tool run" },
+        { name: "npm", host: "bunx" },
+      ]);
+    });
+
+    it("should keep the spans of hosted commands", () => {
+      const command = "poetry run pip install x";
+      const [, pip] = collectInvocations(command);
+      expect(command.slice(pip.span.start, pip.span.end)).toBe("pip install x");
+      expect(pip.args).toEqual(["install", "x"]);
+    });
+
+    it("should not treat other subcommands as hosts", () => {
+      expect(programs("uv pip install -r requirements.txt")).toEqual([
+        { name: "uv" },
+      ]);
+      expect(programs("bun run build")).toEqual([{ name: "bun" }]);
+      expect(programs("uv run")).toEqual([{ name: "uv" }]);
+    });
+  });
+
+  describe("wrappers", () => {
+    it("should add the command a wrapper runs as its own invocation", () => {
+      expect(wrapped("sudo -u root npm i")).toEqual([
+        "sudo -u root npm i",
+        "npm i",
+      ]);
+      expect(wrapped("env -u HOME A=1 B=2 /usr/bin/node x.js")).toEqual([
+        "env -u HOME A=1 B=2 /usr/bin/node x.js",
+        "node x.js",
+      ]);
+      expect(wrapped("timeout -sKILL -- 30 pip list")).toEqual([
+        "timeout -sKILL -- 30 pip list",
+        "pip list",
+      ]);
+    });
+
+    it("should resolve wrappers inside wrappers and hosts", () => {
+      expect(wrapped("sudo timeout 5 uv run pip list")).toEqual([
+        "sudo timeout 5 uv run pip list",
+        "timeout 5 uv run pip list",
+        "uv run pip list",
+        "pip list",
+      ]);
+      expect(
+        collectInvocations("uv run env A=1 python x.py", WRAPPERS).map(
+          ({ program, host }) => ({ program, host })
+        )
+      ).toEqual([
+        { program: "uv", host: undefined },
+        { program: "env", host: "uv run" },
+        { program: "python", host: "uv run" },
+      ]);
+    });
+
+    it("should find the commands of find -exec", () => {
+      expect(wrapped("find . -exec python {} \\; -exec node {} +")).toEqual([
+        "find . -exec python {} ; -exec node {} +",
+        "python {}",
+        "node {}",
+      ]);
+    });
+
+    it("should parse the commands of shell wrappers", () => {
+      expect(wrapped("watch -n 1 'npm test && pip list'")).toEqual([
+        "watch -n 1 npm test && pip list",
+        "npm test",
+        "pip list",
+      ]);
+    });
+
+    it("should parse the command lines of split options", () => {
+      expect(wrapped("env -S 'npm i' x")).toEqual([
+        "env -S npm i x",
+        "npm i x",
+      ]);
+      expect(wrapped("env -uHOME -S'A=1 pip list'")).toEqual([
+        "env -uHOME -SA=1 pip list",
+        "pip list",
+      ]);
+      expect(wrapped("exec -a name env -S node")).toEqual([
+        "exec -a name env -S node",
+        "env -S node",
+        "node",
+      ]);
+    });
+
+    it("should record the variables set for wrapped commands", () => {
+      const environments = collectInvocations(
+        "A=1 env -u HOME B=2 sudo C=$x npm i",
+        WRAPPERS
+      ).map(({ program, environment }) => ({ program, environment }));
+      expect(environments).toEqual([
+        { program: "env", environment: { A: "1" } },
+        { program: "sudo", environment: { A: "1", B: "2" } },
+        { program: "npm", environment: { A: "1", B: "2", C: "$x" } },
+      ]);
+    });
+
+    it("should not resolve queries or wrappers without a command", () => {
+      expect(wrapped("sudo -l npm")).toEqual(["sudo -l npm"]);
+      expect(wrapped("timeout 5")).toEqual(["timeout 5"]);
+      expect(wrapped("nohup npm start")).toEqual(["nohup npm start"]);
+    });
+  });
+
+  describe("nested scripts", () => {
+    function nested(command: string): { program: string; nesting?: string[] }[] {
+      return collectInvocations(command).map(({ program, nesting }) =>
+        nesting ? { program, nesting } : { program }
+      );
+    }
+
+    it("should parse the commands run on other hosts and in containers", () => {
+      expect(nested("ssh -p 22 build 'cd app && git push'")).toEqual([
+        { program: "ssh" },
+        { program: "cd", nesting: ["ssh build"] },
+        { program: "git", nesting: ["ssh build"] },
+      ]);
+      expect(nested("docker exec -it -u root ctr npm i")).toEqual([
+        { program: "docker" },
+        { program: "npm", nesting: ["docker exec ctr"] },
+      ]);
+      expect(nested("kubectl exec pod -c app -- pip list")).toEqual([
+        { program: "kubectl" },
+        { program: "pip", nesting: ["kubectl exec pod"] },
+      ]);
+      expect(nested("su -c 'npm i' bob")).toEqual([
+        { program: "npm", nesting: ["su -c"] },
+        { program: "su" },
+      ]);
+    });
+
+    it("should record the whole chain of nested scripts", () => {
+      const npm = collectInvocations(
+        `ssh host "docker exec ctr bash -c 'n''pm i'"`
+      ).find(({ program }) => program === "npm");
+      expect(npm?.nesting).toEqual(["ssh host", "docker exec ctr", "bash -c"]);
+    });
+
+    it("should parse shell commands run from inline code", () => {
+      const command = `python3 -c "import os; os.system('npm i')"`;
+      const [npm] = collectInvocations(command);
+      expect(npm.nesting).toEqual(["python3 -c"]);
+      expect(command.slice(npm.span.start, npm.span.end)).toBe("npm i");
+      expect(
+        nested(`node -e "require('child_process').execSync('pip list')"`)
+      ).toEqual([{ program: "pip", nesting: ["node -e"] }, { program: "node" }]);
+      expect(
+        nested(`python -c "import subprocess; subprocess.run(['git', 'push'])"`)
+      ).toEqual([{ program: "git", nesting: ["python -c"] }, { program: "python" }]);
+    });
+
+    it("should stop at the nesting limit", () => {
+      const command = `${"eval ".repeat(MAX_NESTING + 1)}npm i`;
+      const { invocations, unchecked } = analyzeCommand(command);
+      expect(invocations).toEqual([]);
+      expect(unchecked).toEqual([
+        {
+          text: "npm i",
+          span: { start: command.length - 5, end: command.length },
+          nesting: Array(MAX_NESTING + 1).fill("eval"),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,769 @@
+import {
+  expandWord,
+  hasStaticBasename,
+  pipelineOutput,
+  wordValue,
+} from "./normalize";
+import type { Variables } from "./normalize";
+import { isStaticWord, parseShell, walk } from "./shell-parser";
+import type { List, SimpleCommand, Span, Word } from "./shell-parser";
+import type { WrapperDefinition } from "./policy";
+
+// Shells whose `-c` argument, heredoc or piped-in text is itself a script
+const SHELL_COMMANDS: readonly string[] = ["sh", "bash", "zsh", "dash", "ksh"];
+
+// `su -c` and `runuser -c` run their value as a script, as another user
+const SU_COMMANDS: readonly string[] = ["su", "runuser"];
+
+// Scripts within scripts are followed this many levels deep. Deeper text is
+// reported as unchecked rather than parsed.
+export const MAX_NESTING = 8;
+
+// Programs that run a command on another host, in a container or pod, keyed
+// by the words that introduce them. `options` take a value, `operands` are
+// the arguments before the command, and `shell` commands are run as text.
+const REMOTE_COMMANDS: Record<
+  string,
+  { options: readonly string[]; operands: number; shell: boolean }
+> = {
+  ssh: {
+    options: [
+      "-B",
+      "-b",
+      "-c",
+      "-D",
+      "-E",
+      "-e",
+      "-F",
+      "-I",
+      "-i",
+      "-J",
+      "-L",
+      "-l",
+      "-m",
+      "-O",
+      "-o",
+      "-p",
+      "-Q",
+      "-R",
+      "-S",
+      "-W",
+      "-w",
+    ],
+    operands: 1,
+    shell: true,
+  },
+  "docker exec": {
+    options: ["-e", "--env", "--env-file", "-u", "--user", "-w", "--workdir"],
+    operands: 1,
+    shell: false,
+  },
+  "docker compose exec": {
+    options: ["-e", "--env", "-u", "--user", "-w", "--workdir", "--index"],
+    operands: 1,
+    shell: false,
+  },
+  "podman exec": {
+    options: ["-e", "--env", "--env-file", "-u", "--user", "-w", "--workdir"],
+    operands: 1,
+    shell: false,
+  },
+  "kubectl exec": {
+    options: ["-c", "--container", "-n", "--namespace", "--context"],
+    operands: 1,
+    shell: false,
+  },
+};
+
+// Options that take inline code, which must come before any script name
+const INLINE_CODE_OPTIONS: Record<string, string[]> = {
+  python: ["-c"],
+  node: ["-e", "--eval", "-p", "--print"],
+  bun: ["-e", "--eval", "-p", "--print"],
+};
+
+// Calls in python or JavaScript code that run a shell command given as a
+// string literal, or a command given as a list of string literals
+const SHELL_CALL =
+  /\b(?:os\.system|os\.popen|subprocess\.\w+|exec|execSync|execFile|execFileSync|spawn|spawnSync)\(\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|`([^`$\\]*)`|\[([^\]]*)\])/g;
+
+// Commands that run the rest of their arguments as a command, keyed by the
+// words that introduce it, with the options that take a value
+const HOST_COMMANDS: Record<string, readonly string[]> = {
+  "uv run": [
+    "--with",
+    "--with-editable",
+    "--with-requirements",
+    "--python",
+    "-p",
+    "--package",
+    "--extra",
+    "--group",
+    "--only-group",
+    "--env-file",
+    "--directory",
+    "--project",
+    "--index",
+    "--default-index",
+  ],
+  "uv tool run": ["--from", "--with", "--python", "-p"],
+  uvx: ["--from", "--with", "--python", "-p"],
+  "bun x": ["-p", "--package"],
+  bunx: ["-p", "--package"],
+  "bun --bun": [],
+  "poetry run": [],
+  "pipenv run": [],
+  "pixi run": ["-e", "--environment", "--manifest-path"],
+  "hatch run": [],
+  "pdm run": [],
+  "conda run": ["-n", "--name", "-p", "--prefix", "--cwd"],
+};
+
+// Whether `words` start with the program and subcommands of `key`
+function startsWithCommand(words: string[], key: string): boolean {
+  return key
+    .split(" ")
+    .every((word, i) =>
+      i === 0 ? basename(words[0] ?? "") === word : words[i] === word
+    );
+}
+
+// The host that `words` start with, and the index of the hosted program
+function hostOf(words: string[]): { host: string; index: number } | undefined {
+  for (const [host, valueOptions] of Object.entries(HOST_COMMANDS)) {
+    if (!startsWithCommand(words, host)) continue;
+    const prefix: string[] = host.split(" ");
+
+    let index: number = prefix.length;
+    while (index < words.length && words[index].startsWith("-")) {
+      if (words[index] === "--") {
+        index++;
+        break;
+      }
+      index += valueOptions.includes(words[index]) ? 2 : 1;
+    }
+    return index < words.length ? { host, index } : undefined;
+  }
+  return undefined;
+}
+
+// The number of words after an option that make up its value
+function optionArity(option: string, options: Record<string, number>): number {
+  if (Object.hasOwn(options, option)) return options[option];
+  // `--name=value` and `-n10` carry their value
+  if (option.startsWith("--")) return 0;
+  // In a cluster such as `-Eu root`, only the last option can take the value
+  for (let i = 1; i < option.length; i++) {
+    const flag = `-${option[i]}`;
+    if (Object.hasOwn(options, flag) && options[flag] > 0) {
+      return i === option.length - 1 ? options[flag] : 0;
+    }
+  }
+  return 0;
+}
+
+// The command line given to a split option such as `env -S`, as in
+// `-S 'npm i'`, `-iS'npm i'` or `--split-string=npm i`, and the number of
+// words it takes
+function splitCommandOf(
+  word: string,
+  next: string | undefined,
+  split: string[],
+  options: Record<string, number>
+): { text: string; words: number } | undefined {
+  const value = (inline: string) =>
+    inline !== ""
+      ? { text: inline, words: 1 }
+      : next !== undefined
+        ? { text: next, words: 2 }
+        : undefined;
+  if (word.startsWith("--")) {
+    const [option, ...inline] = word.split("=");
+    if (!split.includes(option)) return undefined;
+    return inline.length > 0 ? { text: inline.join("="), words: 1 } : value("");
+  }
+  // In a cluster, the first option that takes a value takes the rest
+  for (let i = 1; i < word.length; i++) {
+    const flag = `-${word[i]}`;
+    if (split.includes(flag)) return value(word.slice(i + 1));
+    if (Object.hasOwn(options, flag) && options[flag] > 0) return undefined;
+  }
+  return undefined;
+}
+
+// The commands a wrapper such as `sudo` or `find -exec` runs, as ranges of
+// its words, with the variables the wrapper sets for them. The command of a
+// split option is given as `text`, to be parsed like the script of `sh -c`.
+function wrappedCommandsOf(
+  words: string[],
+  wrappers: Record<string, WrapperDefinition>
+): {
+  start: number;
+  end: number;
+  shell: boolean;
+  assignments: string[];
+  text?: string;
+}[] {
+  const program: string = basename(words[0] ?? "");
+  if (!Object.hasOwn(wrappers, program)) return [];
+  const {
+    options = {},
+    operands = 0,
+    queries = [],
+    exec,
+    shell = false,
+    split = [],
+  } = wrappers[program];
+
+  if (exec) {
+    const commands: {
+      start: number;
+      end: number;
+      shell: boolean;
+      assignments: string[];
+    }[] = [];
+    for (let i = 1; i < words.length; i++) {
+      if (!exec.includes(words[i])) continue;
+      // `{} +` passes many paths at once, a lone `+` is an argument
+      let end: number = i + 1;
+      while (
+        end < words.length &&
+        words[end] !== ";" &&
+        !(words[end] === "+" && words[end - 1] === "{}")
+      ) {
+        end++;
+      }
+      if (end > i + 1) {
+        commands.push({ start: i + 1, end, shell, assignments: [] });
+      }
+      i = end;
+    }
+    return commands;
+  }
+
+  const assignments: string[] = [];
+  let index = 1;
+  while (index < words.length) {
+    const word: string = words[index];
+    if (word === "--") {
+      index++;
+      break;
+    }
+    if (queries.includes(word)) return [];
+    const splitCommand = word.startsWith("-")
+      ? splitCommandOf(word, words[index + 1], split, options)
+      : undefined;
+    if (splitCommand) {
+      // The words after the command line are appended to it
+      const rest: string[] = words.slice(index + splitCommand.words);
+      return [
+        {
+          start: index,
+          end: words.length,
+          shell: true,
+          assignments,
+          text: [splitCommand.text, ...rest].join(" "),
+        },
+      ];
+    }
+    if (word.startsWith("-") && word.length > 1) {
+      index += 1 + optionArity(word, options);
+    } else if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      // Variables set for the command, as in `env NAME=value` or `sudo`
+      assignments.push(word);
+      index++;
+    } else {
+      break;
+    }
+  }
+  index += operands;
+  return index < words.length
+    ? [{ start: index, end: words.length, shell, assignments }]
+    : [];
+}
+
+// The remote command `words` start with, such as `ssh host`, and the index
+// of the command it runs
+function remoteCommandOf(
+  words: string[]
+): { label: string; index: number; shell: boolean } | undefined {
+  for (const [key, { options, operands, shell }] of Object.entries(
+    REMOTE_COMMANDS
+  )) {
+    if (!startsWithCommand(words, key)) continue;
+
+    // Options may also follow the operands, as in `kubectl exec pod -c x --`
+    const found: string[] = [];
+    let index: number = key.split(" ").length;
+    while (index < words.length) {
+      if (words[index] === "--") {
+        index++;
+        if (found.length === operands) break;
+      } else if (words[index].startsWith("-")) {
+        index += options.includes(words[index]) ? 2 : 1;
+      } else if (found.length < operands) {
+        found.push(words[index++]);
+      } else {
+        break;
+      }
+    }
+    if (index >= words.length) return undefined;
+    return { label: [key, ...found].join(" "), index, shell };
+  }
+  return undefined;
+}
+
+// The inline code of `python -c`, `node -e`, `deno eval` and the like
+export function interpreterCode(
+  program: string,
+  args: string[]
+): string | undefined {
+  if (program === "deno") {
+    return args[0] === "eval"
+      ? args.slice(1).find((arg) => !arg.startsWith("-"))
+      : undefined;
+  }
+  const key: string = /^python[\d.]*$/.test(program) ? "python" : program;
+  if (!Object.hasOwn(INLINE_CODE_OPTIONS, key)) return undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (INLINE_CODE_OPTIONS[key].includes(args[i])) return args[i + 1];
+    if (!args[i].startsWith("-")) break;
+  }
+  return undefined;
+}
+
+// The shell commands that inline code runs through `os.system`,
+// `subprocess`, `child_process` and the like
+function shellCommandsIn(code: string): string[] {
+  return [...code.matchAll(SHELL_CALL)].map(
+    ([, double, single, template, list]) =>
+      list !== undefined
+        ? [...list.matchAll(/"([^"]*)"|'([^']*)'/g)]
+            .map(([, a, b]) => a ?? b)
+            .join(" ")
+        : (double ?? single ?? template)
+  );
+}
+
+// Script text that was not parsed because it is nested too deeply
+export interface NestedText {
+  text: string;
+  span: Span;
+  nesting: string[];
+}
+
+// A command whose program, or the script it runs, cannot be determined
+export interface Undecidable {
+  // "program" for program words such as `$cmd`, "pipe" for text piped into
+  // a shell, such as the output of `curl`
+  kind: "program" | "pipe";
+  description: string;
+  span: Span;
+  nesting?: string[];
+}
+
+export interface Invocation {
+  // The program's basename, which rules match against
+  program: string;
+  name: string;
+  args: string[];
+  command: SimpleCommand;
+  // The program and its arguments, after hosts and wrappers
+  words: Word[];
+  // Spans of the program and each argument in the original command string.
+  // When nested text (eval, `sh -c`, heredocs) cannot be mapped back
+  // character for character, `exact` is false and every span covers the
+  // whole text the invocation was parsed from.
+  spans: Span[];
+  span: Span;
+  exact: boolean;
+  // File redirections (heredocs excluded), with the target's span
+  redirects: { operator: string; target: string; span: Span }[];
+  // The command that runs this one, such as `uv run` in `uv run python`
+  host?: string;
+  // The commands whose script text this one was found in, outermost first,
+  // such as `ssh build` and `bash -c`, when there are any
+  nesting?: string[];
+  // Variables set for this command by assignments before it, as in
+  // `NAME=value cmd`, or by wrappers such as `env NAME=value`, including
+  // those of the commands it runs in. Values that cannot be determined are
+  // undefined.
+  environment: Record<string, string | undefined>;
+}
+
+export function basename(path: string): string {
+  return path.split(/[/\\]/).pop() || "";
+}
+
+function spanOf(spans: Span[]): Span {
+  return { start: spans[0].start, end: spans[spans.length - 1].end };
+}
+
+export interface CommandAnalysis {
+  invocations: Invocation[];
+  unchecked: NestedText[];
+  undecidable: Undecidable[];
+}
+
+// Resolve every command that would actually be executed, including those
+// hidden behind exec/eval, `sh -c`, text piped or heredoc'd into a shell,
+// hosts such as `uv run`, wrappers such as `sudo` or `find -exec`, remote
+// commands such as `ssh host` or `docker exec`, and shell calls in inline
+// python or JavaScript code. Words are expanded first: quotes, ANSI-C
+// strings, braces, variables the script sets and substitutions of literal
+// echo, printf or base64 output.
+export function analyzeCommand(
+  command: string,
+  wrappers: Record<string, WrapperDefinition> = {}
+): CommandAnalysis {
+  const invocations: Invocation[] = [];
+  const unchecked: NestedText[] = [];
+  const undecidable: Undecidable[] = [];
+  // Variables are followed in the order commands appear, whatever the
+  // control flow, across nested scripts too
+  const variables: Variables = new Map();
+  // Words that could not be expanded and are kept as written
+  const unresolved = new Set<Word>();
+
+  // Expanded words keep the span of the word they came from. When a word
+  // expands into several, only the first keeps its source text, so that the
+  // text is not repeated when the words are written back out.
+  const expandWords = (words: Word[]): Word[] =>
+    words.flatMap((word) => {
+      const values: string[] | undefined = expandWord(word, variables);
+      if (!values) {
+        unresolved.add(word);
+        return [word];
+      }
+      if (
+        isStaticWord(word) &&
+        values.length === 1 &&
+        values[0] === word.value
+      ) {
+        return [word];
+      }
+      return values.map((value, index) => ({
+        ...word,
+        text: index === 0 ? word.text : "",
+        value,
+        parts: [{ type: "literal", value, quote: "none" }],
+      }));
+    });
+
+  // Spans in `script` are relative to the text it was parsed from, which
+  // starts at `offset` in the command, or lies somewhere inside `container`.
+  const visit = (
+    script: List,
+    offset: number,
+    container: Span | undefined,
+    nesting: string[],
+    environment: Invocation["environment"]
+  ): void => {
+    const locate = (span: Span): Span =>
+      container
+        ? { start: container.start, end: container.end }
+        : { start: span.start + offset, end: span.end + offset };
+
+    // Script text found within `span`, nested in the `inner` commands that
+    // run it with `env` set
+    const visitText = (
+      text: string,
+      span: Span,
+      inner: string[],
+      env: Invocation["environment"]
+    ): void => {
+      const outer: Span = locate(span);
+      let start: number = -1;
+      if (!container) {
+        // The text may appear verbatim after a quote, or inside inline code
+        start = command.indexOf(text, outer.start);
+        if (start + text.length > outer.end) start = -1;
+      }
+      const located: Span =
+        start === -1 ? outer : { start, end: start + text.length };
+      if (inner.length > MAX_NESTING) {
+        unchecked.push({ text, span: located, nesting: inner });
+      } else if (start === -1) {
+        visit(parseShell(text), 0, outer, inner, env);
+      } else {
+        visit(parseShell(text), start, undefined, inner, env);
+      }
+    };
+
+    // The words of `simple` from the program on, which differ from its own
+    // words when it is run by a host or a wrapper. Redirections belong to
+    // the outermost command only.
+    const visitWords = (
+      simple: SimpleCommand,
+      words: Word[],
+      redirects: Invocation["redirects"],
+      host: string | undefined,
+      nesting: string[],
+      env: Invocation["environment"]
+    ): void => {
+      if (words.length === 0) return;
+      const values: string[] = words.map((word) => word.value);
+      const program: string = basename(values[0]);
+
+      if (unresolved.has(words[0]) && !hasStaticBasename(words[0])) {
+        undecidable.push({
+          kind: "program",
+          description: `\`${words[0].text}\` cannot be resolved to a program`,
+          span: locate(words[0]),
+          nesting: nesting.length > 0 ? nesting : undefined,
+        });
+      }
+
+      if (values[0] === "eval") {
+        if (words.length > 1) {
+          visitText(
+            values.slice(1).join(" "),
+            spanOf(words.slice(1)),
+            [...nesting, "eval"],
+            env
+          );
+        }
+        return;
+      }
+
+      if (SHELL_COMMANDS.includes(program) || SU_COMMANDS.includes(program)) {
+        const flagIndex = values.findIndex(
+          (value, index) =>
+            index > 0 && /^(?:-[a-z]*c[a-z]*|--command)$/.test(value)
+        );
+        const inline: number = values.findIndex((value) =>
+          value.startsWith("--command=")
+        );
+        if (flagIndex > 0 && flagIndex + 1 < words.length) {
+          visitText(
+            values[flagIndex + 1],
+            words[flagIndex + 1],
+            [...nesting, `${program} -c`],
+            env
+          );
+        } else if (inline > 0) {
+          visitText(
+            values[inline].slice("--command=".length),
+            words[inline],
+            [...nesting, `${program} -c`],
+            env
+          );
+        } else if (
+          SHELL_COMMANDS.includes(program) &&
+          values.slice(1).every((value) => value.startsWith("-"))
+        ) {
+          for (const redirect of simple.redirects) {
+            if (redirect.heredoc) {
+              visitText(
+                redirect.heredoc.value,
+                redirect.heredoc,
+                [...nesting, `${program} <<`],
+                env
+              );
+            }
+            if (redirect.operator === "<<<") {
+              visitText(
+                redirect.target.value,
+                redirect.target,
+                [...nesting, `${program} <<<`],
+                env
+              );
+            }
+          }
+        }
+      }
+
+      const code: string | undefined = interpreterCode(program, values.slice(1));
+      if (code !== undefined) {
+        const index: number = values.lastIndexOf(code);
+        for (const text of shellCommandsIn(code)) {
+          visitText(
+            text,
+            words[index],
+            [...nesting, `${program} ${values[index - 1]}`],
+            env
+          );
+        }
+      }
+
+      invocations.push({
+        program,
+        name: values[0],
+        args: values.slice(1),
+        command: simple,
+        words,
+        spans: words.map(locate),
+        span: locate(spanOf(words)),
+        exact: !container,
+        redirects,
+        host,
+        nesting: nesting.length > 0 ? nesting : undefined,
+        environment: env,
+      });
+
+      // The command run by a host is an invocation of its own
+      const hosted = hostOf(values);
+      if (hosted) {
+        visitWords(
+          simple,
+          words.slice(hosted.index),
+          [],
+          hosted.host,
+          nesting,
+          env
+        );
+      }
+      // So is the command run by a wrapper, in the same environment
+      for (const { start, end, shell, assignments, text } of wrappedCommandsOf(
+        values,
+        wrappers
+      )) {
+        const wrapped: Word[] = words.slice(start, end);
+        const inner: Invocation["environment"] = { ...env };
+        for (const assignment of assignments) {
+          const [name, ...value] = assignment.split("=");
+          inner[name] = value.join("=");
+        }
+        if (shell) {
+          visitText(
+            text ?? values.slice(start, end).join(" "),
+            spanOf(wrapped),
+            [...nesting, program],
+            inner
+          );
+        } else {
+          visitWords(simple, wrapped, [], host, nesting, inner);
+        }
+      }
+      // Remote commands run elsewhere, one level deeper
+      const remote = remoteCommandOf(values);
+      if (remote?.shell) {
+        visitText(
+          values.slice(remote.index).join(" "),
+          spanOf(words.slice(remote.index)),
+          [...nesting, remote.label],
+          {}
+        );
+      } else if (remote) {
+        const inner: string[] = [...nesting, remote.label];
+        if (inner.length > MAX_NESTING) {
+          unchecked.push({
+            text: values.slice(remote.index).join(" "),
+            span: locate(spanOf(words.slice(remote.index))),
+            nesting: inner,
+          });
+        } else {
+          visitWords(
+            simple,
+            words.slice(remote.index),
+            [],
+            undefined,
+            inner,
+            {}
+          );
+        }
+      }
+    };
+
+    // Text the parser left alone because it is nested too deeply
+    for (const { text, start, end } of script.unparsed ?? []) {
+      unchecked.push({ text, span: locate({ start, end }), nesting });
+    }
+
+    walk(script, {
+      pipeline: (pipeline) => {
+        for (let i = 1; i < pipeline.commands.length; i++) {
+          const source = pipeline.commands[i - 1];
+          const sink = pipeline.commands[i];
+          if (sink.type !== "simple" || sink.words.length === 0) continue;
+          const [consumer, ...args] = sink.words.map((word) => word.value);
+          const shell: string = basename(consumer);
+          if (
+            !SHELL_COMMANDS.includes(shell) ||
+            !args.every((arg) => arg.startsWith("-"))
+          ) {
+            continue;
+          }
+
+          // Text written by echo or printf, possibly decoded on the way
+          const text: string | undefined = pipelineOutput(
+            pipeline.commands.slice(0, i),
+            variables
+          );
+          const last: Word | undefined =
+            source.type === "simple" ? source.words.at(-1) : undefined;
+          const from: Span = {
+            start: pipeline.commands[0].start,
+            end: last?.end ?? source.end,
+          };
+          if (text === undefined) {
+            undecidable.push({
+              kind: "pipe",
+              description: `the text piped into \`${shell}\` cannot be determined`,
+              span: locate(from),
+              nesting: nesting.length > 0 ? nesting : undefined,
+            });
+            continue;
+          }
+          let producer = "";
+          let span: Span = from;
+          if (source.type === "simple" && source.words.length > 0) {
+            producer = basename(source.words[0].value);
+            // The literal text of `echo ... | sh` can be located in the command
+            if (i === 1 && source.words.length > 1) {
+              span = spanOf(source.words.slice(1));
+            }
+          }
+          visitText(
+            text.replace(/\n+$/, ""),
+            span,
+            [...nesting, `${producer} | ${shell}`],
+            environment
+          );
+        }
+      },
+      simple: (simple) => {
+        // Assignments before a command set variables for it only
+        const env: Invocation["environment"] = { ...environment };
+        for (const { name, value } of simple.assignments) {
+          env[name] = wordValue(value, variables);
+        }
+        // Assignments on their own set variables for the rest of the script
+        if (simple.words.length === 0) {
+          for (const { name, value } of simple.assignments) {
+            const resolved: string | undefined = wordValue(value, variables);
+            if (resolved !== undefined) {
+              variables.set(name, resolved);
+            } else {
+              variables.delete(name);
+            }
+          }
+        }
+        visitWords(
+          simple,
+          expandWords(simple.words),
+          simple.redirects
+            .filter((redirect) => !redirect.heredoc)
+            .map((redirect) => ({
+              operator: redirect.operator,
+              target: redirect.target.value,
+              span: locate(redirect.target),
+            })),
+          undefined,
+          nesting,
+          env
+        );
+      },
+    });
+  };
+
+  visit(parseShell(command), 0, undefined, [], {});
+  return { invocations, unchecked, undecidable };
+}
+
+export function collectInvocations(
+  command: string,
+  wrappers: Record<string, WrapperDefinition> = {}
+): Invocation[] {
+  return analyzeCommand(command, wrappers).invocations;
+}
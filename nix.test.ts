@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { flakeRefsOf, nixPurityIssuesOf, parseFlakeRef } from "./nix";
+
+function refs(command: string): string[] {
+  const args: string[] = command.split(" ").slice(1);
+  return flakeRefsOf(args).map((index) => args[index]);
+}
+
+describe("Nix", () => {
+  describe("parseFlakeRef", () => {
+    it("should split URL references into location, parameters and fragment", () => {
+      expect(
+        parseFlakeRef("git+ssh://git@host/repo?ref=main&dir=sub#packages.x86_64-linux.app")
+      ).toEqual({
+        scheme: "git+ssh",
+        location: "git+ssh://git@host/repo",
+        params: { ref: "main", dir: "sub" },
+        attrPath: ["packages", "x86_64-linux", "app"],
+        outputs: [],
+      });
+      expect(parseFlakeRef('nixpkgs#"hello.world"^out,dev')).toMatchObject({
+        scheme: "registry",
+        location: "nixpkgs",
+        attrPath: ["hello.world"],
+        outputs: ["out", "dev"],
+      });
+    });
+
+    it("should classify each scheme", () => {
+      const scheme = (ref: string): string => parseFlakeRef(ref).scheme;
+      expect(scheme("./flake")).toBe("local");
+      expect(scheme(".#app")).toBe("local");
+      expect(scheme("/home/me/flake")).toBe("local");
+      expect(scheme("my.flake")).toBe("local");
+      expect(scheme("path:./flake")).toBe("path");
+      expect(scheme("github:NixOS/nixpkgs/nixos-24.05")).toBe("github");
+      expect(scheme("gitlab:group/project")).toBe("gitlab");
+      expect(scheme("sourcehut:~user/repo")).toBe("sourcehut");
+      expect(scheme("GIT+HTTPS://example.com/repo.git")).toBe("git+https");
+      expect(scheme("tarball+https://example.com/a.tar.gz")).toBe("tarball");
+      expect(scheme("file+https://example.com/flake.nix")).toBe("file");
+      expect(scheme("hg+https://example.com/repo")).toBe("hg");
+      expect(scheme("https://example.com/a.tar.gz")).toBe("https");
+      expect(scheme("nixpkgs/nixos-24.05")).toBe("registry");
+      expect(scheme("flake:nixpkgs")).toBe("registry");
+      expect(scheme("/nix/store/abc-hello^out")).toBe("store");
+    });
+  });
+
+  describe("flakeRefsOf", () => {
+    it("should find the installables of each subcommand", () => {
+      expect(refs("nix build a b --out-link result c")).toEqual(["a", "b", "c"]);
+      expect(refs("nix run a b c")).toEqual(["a"]);
+      expect(refs("nix search nixpkgs python")).toEqual(["nixpkgs"]);
+      expect(refs("nix flake check ./x")).toEqual(["./x"]);
+      expect(refs("nix profile install a b")).toEqual(["a", "b"]);
+      expect(refs("nix --extra-experimental-features flakes shell a")).toEqual(["a"]);
+    });
+
+    it("should find flake references given to options", () => {
+      expect(refs("nix build --override-input nixpkgs ../nixpkgs .")).toEqual([
+        "../nixpkgs",
+        ".",
+      ]);
+      expect(refs("nix flake init -t templates#rust")).toEqual(["templates#rust"]);
+      expect(refs("nix flake update nixpkgs --flake ./x")).toEqual(["./x"]);
+    });
+
+    it("should skip attribute paths, commands and program arguments", () => {
+      expect(refs("nix build -f ./default.nix hello")).toEqual([]);
+      expect(refs("nix eval --expr 1+1")).toEqual([]);
+      expect(refs("nix shell a -c ./run.sh b")).toEqual(["a"]);
+      expect(refs("nix develop -- ./x")).toEqual([]);
+      expect(refs("nix flake update nixpkgs")).toEqual([]);
+      expect(refs("nix store gc")).toEqual([]);
+    });
+  });
+
+  describe("nixPurityIssuesOf", () => {
+    function kinds(command: string): string[] {
+      const [program, ...args] = command.split(" ");
+      return nixPurityIssuesOf(program, args).map(({ kind }) => kind);
+    }
+
+    it("should flag each kind of impure usage", () => {
+      expect(kinds("nix build --impure .#app")).toEqual(["impure"]);
+      expect(kinds("nix-env -iA nixpkgs.jq")).toEqual(["nix-env"]);
+      expect(kinds("nix profile install nixpkgs#jq")).toEqual(["profile"]);
+      expect(kinds("nix-shell -p jq curl")).toEqual(["channels"]);
+      expect(kinds("nix-build <nixpkgs> -A hello")).toEqual(["channels"]);
+      expect(kinds("nix eval -I nixpkgs=channel:nixos-24.05 nixpkgs#hello")).toEqual([
+        "channels",
+      ]);
+      expect(kinds("nix-channel --update")).toEqual(["channels"]);
+      expect(
+        nixPurityIssuesOf("nix", ["eval", "--expr", '(builtins.getFlake "/abs/path").rev'])
+      ).toMatchObject([{ kind: "get-flake", index: 2 }]);
+    });
+
+    it("should suggest flake-based equivalents", () => {
+      expect(nixPurityIssuesOf("nix-shell", ["-p", "jq", "curl"])[0].description).toContain(
+        "Use `nix shell nixpkgs#jq nixpkgs#curl` instead."
+      );
+    });
+
+    it("should allow pure usage", () => {
+      expect(kinds("nix build .#app")).toEqual([]);
+      expect(kinds("nix-env -q")).toEqual([]);
+      expect(kinds("nix profile list")).toEqual([]);
+      expect(
+        nixPurityIssuesOf("nix", ["eval", "--expr", 'builtins.getFlake "github:o/r/abc"'])
+      ).toEqual([]);
+      expect(kinds("nix shell nixpkgs#hello -c hello --impure")).toEqual([]);
+      expect(kinds("nix-shell shell.nix --run cat<in>")).toEqual([]);
+    });
+  });
+});
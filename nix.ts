@@ -0,0 +1,374 @@
+// A model of nix invocations: the flake reference grammar, and which
+// arguments of each subcommand are flake references
+
+export interface FlakeRef {
+  // Key into the policy's flake scheme table: the URL scheme with the
+  // `tarball+`, `file+` and `hg+` transports folded in, "local" for paths
+  // without a scheme, "registry" for indirect references and "store" for
+  // store paths
+  scheme: string;
+  // The path, URL or registry id, without parameters and fragment
+  location: string;
+  params: Record<string, string>;
+  attrPath: string[];
+  // Outputs selected with `^out,dev`
+  outputs: string[];
+}
+
+// `nixpkgs`, `nixpkgs/nixos-24.05`, `nixpkgs/nixos-24.05/<rev>`
+const REGISTRY_REF = /^[a-zA-Z][a-zA-Z0-9_-]*(?:\/[a-zA-Z0-9._-]+){0,2}$/;
+const URL_SCHEME = /^([a-zA-Z][a-zA-Z0-9+.-]*):/;
+
+function schemeOf(location: string): string {
+  const url: RegExpMatchArray | null = location.match(URL_SCHEME);
+  if (url) {
+    const scheme: string = url[1].toLowerCase();
+    if (scheme === "flake") return "registry";
+    const [transport] = scheme.split("+");
+    return ["tarball", "file", "hg"].includes(transport) ? transport : scheme;
+  }
+  if (location.startsWith("/nix/store/")) return "store";
+  if (REGISTRY_REF.test(location)) return "registry";
+  return "local";
+}
+
+// `a.b."c.d"` -> ["a", "b", "c.d"]
+function parseAttrPath(fragment: string): string[] {
+  return [...fragment.matchAll(/"([^"]*)"|[^.]+/g)].map(
+    (part) => part[1] ?? part[0]
+  );
+}
+
+export function parseFlakeRef(text: string): FlakeRef {
+  let rest: string = text;
+  let outputs: string[] = [];
+  const caret: number = rest.lastIndexOf("^");
+  if (caret !== -1 && !rest.slice(caret).includes("/")) {
+    outputs = rest.slice(caret + 1).split(",").filter(Boolean);
+    rest = rest.slice(0, caret);
+  }
+
+  let attrPath: string[] = [];
+  const hash: number = rest.indexOf("#");
+  if (hash !== -1) {
+    attrPath = parseAttrPath(rest.slice(hash + 1));
+    rest = rest.slice(0, hash);
+  }
+
+  const params: Record<string, string> = {};
+  const question: number = rest.indexOf("?");
+  if (question !== -1) {
+    for (const pair of rest.slice(question + 1).split("&")) {
+      if (!pair) continue;
+      const [name, ...value] = pair.split("=");
+      params[name] = value.join("=");
+    }
+    rest = rest.slice(0, question);
+  }
+
+  return { scheme: schemeOf(rest), location: rest, params, attrPath, outputs };
+}
+
+// Options that take values, by the number of values they take, and the
+// position of the value that is a flake reference, if any
+const VALUE_OPTIONS: Record<string, { count: number; ref?: number }> = {
+  "--arg": { count: 2 },
+  "--argstr": { count: 2 },
+  "--option": { count: 2 },
+  "--override-input": { count: 2, ref: 1 },
+  "--override-flake": { count: 2, ref: 1 },
+  "--redirect": { count: 2, ref: 0 },
+  "--inputs-from": { count: 1, ref: 0 },
+  "--template": { count: 1, ref: 0 },
+  "-t": { count: 1, ref: 0 },
+  "--bundler": { count: 1, ref: 0 },
+  "--flake": { count: 1, ref: 0 },
+  "--expr": { count: 1 },
+  "-f": { count: 1 },
+  "--file": { count: 1 },
+  "-I": { count: 1 },
+  "--include": { count: 1 },
+  "-o": { count: 1 },
+  "--out-link": { count: 1 },
+  "--profile": { count: 1 },
+  "--store": { count: 1 },
+  "--eval-store": { count: 1 },
+  "--from": { count: 1 },
+  "--to": { count: 1 },
+  "--system": { count: 1 },
+  "--priority": { count: 1 },
+  "--reference-lock-file": { count: 1 },
+  "--output-lock-file": { count: 1 },
+  "--update-input": { count: 1 },
+  "-k": { count: 1 },
+  "--keep": { count: 1 },
+  "-u": { count: 1 },
+  "--unset": { count: 1 },
+  "--phase": { count: 1 },
+  "-j": { count: 1 },
+  "--max-jobs": { count: 1 },
+  "--cores": { count: 1 },
+  "--log-format": { count: 1 },
+  "--apply": { count: 1 },
+  "--experimental-features": { count: 1 },
+  "--extra-experimental-features": { count: 1 },
+};
+
+// Commands whose positional arguments are all installables
+const INSTALLABLE_COMMANDS: readonly string[] = [
+  "build",
+  "bundle",
+  "copy",
+  "develop",
+  "edit",
+  "eval",
+  "log",
+  "path-info",
+  "print-dev-env",
+  "profile add",
+  "profile install",
+  "repl",
+  "shell",
+  "why-depends",
+];
+
+// Commands that take a single flake or installable, followed by arguments
+// that are not references: program arguments, search terms
+const FIRST_ARGUMENT_COMMANDS: readonly string[] = [
+  "run",
+  "search",
+  "flake archive",
+  "flake check",
+  "flake clone",
+  "flake info",
+  "flake lock",
+  "flake metadata",
+  "flake prefetch",
+  "flake show",
+];
+
+// Commands that group subcommands, e.g. `nix flake check`
+const COMMAND_GROUPS: readonly string[] = [
+  "derivation",
+  "flake",
+  "profile",
+  "registry",
+  "store",
+];
+
+export interface NixCommand {
+  // The subcommand, e.g. "build" or "flake check"
+  command: string;
+  // Indexes of the positional arguments after the subcommand
+  positional: number[];
+  // Option values by index, e.g. `./x` in `--override-input a ./x` is
+  // position 1 of its option
+  values: { option: string; index: number; position: number }[];
+}
+
+// Split `nix <args>` into its subcommand, positional arguments and option
+// values, up to `--` or the command of `nix shell -c`
+export function parseNixCommand(args: string[]): NixCommand {
+  const nix: NixCommand = { command: "", positional: [], values: [] };
+  const command: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg: string = args[i];
+    if (arg === "--" || arg === "-c" || arg === "--command") break;
+    if (arg.startsWith("-")) {
+      if (Object.hasOwn(VALUE_OPTIONS, arg)) {
+        const { count } = VALUE_OPTIONS[arg];
+        for (let position = 0; position < count; position++) {
+          const index: number = i + 1 + position;
+          if (index < args.length) {
+            nix.values.push({ option: arg, index, position });
+          }
+        }
+        i += count;
+      }
+      continue;
+    }
+    const expectsCommand: boolean =
+      command.length === 0 ||
+      (command.length === 1 && COMMAND_GROUPS.includes(command[0]));
+    if (expectsCommand) {
+      command.push(arg);
+    } else {
+      nix.positional.push(i);
+    }
+  }
+
+  nix.command = command.join(" ");
+  return nix;
+}
+
+// Indexes of the arguments of `nix <args>` that are flake references or
+// installables, including those given to options like `--override-input`
+export function flakeRefsOf(args: string[]): number[] {
+  const { command, positional, values } = parseNixCommand(args);
+  const refs: number[] = values
+    .filter(({ option, position }) => VALUE_OPTIONS[option].ref === position)
+    .map(({ index }) => index);
+
+  // With `--file` or `--expr`, installables are attribute paths
+  const fromFile: boolean = values.some(({ option }) =>
+    ["-f", "--file", "--expr"].includes(option)
+  );
+  if (!fromFile) {
+    if (INSTALLABLE_COMMANDS.includes(command)) refs.push(...positional);
+    if (FIRST_ARGUMENT_COMMANDS.includes(command)) {
+      refs.push(...positional.slice(0, 1));
+    }
+  }
+  return refs.sort((a, b) => a - b);
+}
+
+export interface PurityIssue {
+  // The sub-rule: impure, nix-env, profile, channels or get-flake
+  kind: string;
+  description: string;
+  // Index of the offending argument, when a single one is to blame
+  index?: number;
+}
+
+const LEGACY_PROGRAMS: readonly string[] = [
+  "nix-build",
+  "nix-instantiate",
+  "nix-shell",
+];
+
+// `<nixpkgs>` and other NIX_PATH lookups
+const LOOKUP_PATH = /<[a-zA-Z0-9._+-]+(?:\/[a-zA-Z0-9._+-]+)*>/;
+
+// `builtins.getFlake "/abs/path"`
+const GET_FLAKE = /\bgetFlake\s*\(?\s*"([^"]*)"/g;
+
+// Options of the legacy commands whose values are shell commands
+const LEGACY_COMMAND_OPTIONS: readonly string[] = ["--run", "--command"];
+
+// `nix-env` operations that put packages into the user profile
+function isNixEnvInstall(arg: string): boolean {
+  return (
+    /^-[iu][a-zA-Z]*$/.test(arg) ||
+    ["--install", "--upgrade", "--set"].includes(arg)
+  );
+}
+
+function channelIssue(index: number, lookup: string): PurityIssue {
+  return {
+    kind: "channels",
+    description: `\`${lookup}\` is resolved from NIX_PATH channels, which differ between machines. Add the source as a flake input and use it from flake.nix instead.`,
+    index,
+  };
+}
+
+// Impure or unpinned uses of nix, for the program `nix` and the legacy
+// `nix-*` commands
+export function nixPurityIssuesOf(
+  program: string,
+  args: string[]
+): PurityIssue[] {
+  const issues: PurityIssue[] = [];
+
+  if (program === "nix") {
+    const { command, values } = parseNixCommand(args);
+    const end: number = args.findIndex((arg) =>
+      ["--", "-c", "--command"].includes(arg)
+    );
+    const impure: number = args
+      .slice(0, end === -1 ? args.length : end)
+      .indexOf("--impure");
+    if (impure !== -1) {
+      issues.push({
+        kind: "impure",
+        description:
+          "`--impure` lets evaluation read environment variables, unpinned channels and files outside the flake. Declare what the build needs as flake inputs instead.",
+        index: impure,
+      });
+    }
+    if (["profile install", "profile add", "profile upgrade"].includes(command)) {
+      issues.push({
+        kind: "profile",
+        description: `\`nix ${command}\` changes the user profile outside of the project. Add the package to a devShell in flake.nix and use \`nix develop\`, or use \`nix shell nixpkgs#<package>\` for a one-off.`,
+      });
+    }
+    for (const { option, index } of values) {
+      const value: string = args[index];
+      if (["--expr", "--apply", "-f", "--file", "--arg"].includes(option)) {
+        const lookup: RegExpMatchArray | null = value.match(LOOKUP_PATH);
+        if (lookup) issues.push(channelIssue(index, lookup[0]));
+      }
+      if (["-I", "--include"].includes(option) && value.includes("channel:")) {
+        issues.push(channelIssue(index, value));
+      }
+      if (option !== "--expr" && option !== "--apply") continue;
+      for (const found of value.matchAll(GET_FLAKE)) {
+        const { scheme } = parseFlakeRef(found[1]);
+        if (scheme !== "local" && scheme !== "path") continue;
+        issues.push({
+          kind: "get-flake",
+          description: `\`builtins.getFlake "${found[1]}"\` reads an unlocked local flake. Use the flake as an installable, such as \`nix eval path:${found[1].replace(/^path:/, "")}#<attribute>\`, or as an input of flake.nix.`,
+          index,
+        });
+      }
+    }
+  }
+
+  if (program === "nix-env") {
+    const install: number = args.findIndex(isNixEnvInstall);
+    if (install !== -1) {
+      issues.push({
+        kind: "nix-env",
+        description:
+          "`nix-env` installs unpinned packages into the user profile. Add the package to a devShell in flake.nix and use `nix develop`, or use `nix shell nixpkgs#<package>` for a one-off.",
+        index: install,
+      });
+    }
+  }
+
+  if (program === "nix-channel") {
+    const change: number = args.findIndex((arg) =>
+      ["--add", "--update", "--remove", "--rollback"].includes(arg)
+    );
+    if (change !== -1) {
+      issues.push({
+        kind: "channels",
+        description:
+          "`nix-channel` changes the channels that `<nixpkgs>` resolves to. Pin nixpkgs as a flake input instead.",
+        index: change,
+      });
+    }
+  }
+
+  if (LEGACY_PROGRAMS.includes(program)) {
+    for (let i = 0; i < args.length; i++) {
+      const arg: string = args[i];
+      if (arg === "--") break;
+      if (LEGACY_COMMAND_OPTIONS.includes(arg)) {
+        i++;
+        continue;
+      }
+      if (arg === "-p" || arg === "--packages") {
+        const packages: string[] = [];
+        for (let j = i + 1; j < args.length && !args[j].startsWith("-"); j++) {
+          packages.push(args[j]);
+        }
+        const installables: string =
+          packages.map((name) => `nixpkgs#${name}`).join(" ") ||
+          "nixpkgs#<package>";
+        issues.push({
+          kind: "channels",
+          description: `\`${program} -p\` looks packages up in the \`<nixpkgs>\` channel. Use \`nix shell ${installables}\` instead.`,
+          index: i,
+        });
+        continue;
+      }
+      if (arg === "--impure") continue;
+      const lookup: RegExpMatchArray | null = arg.match(LOOKUP_PATH);
+      if (lookup) issues.push(channelIssue(i, lookup[0]));
+      else if (arg.includes("channel:")) issues.push(channelIssue(i, arg));
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { expandBraces, expandWords, pipelineOutput } from "./normalize";
+import type { Variables } from "./normalize";
+import { parseShell } from "./shell-parser";
+import type { Command, SimpleCommand } from "./shell-parser";
+
+function commandsOf(source: string): Command[] {
+  return parseShell(source).items[0].pipelines[0].commands;
+}
+
+function expand(source: string, variables: Variables = new Map()) {
+  const [command] = commandsOf(source) as SimpleCommand[];
+  return expandWords(command.words, variables);
+}
+
+describe("Normalize", () => {
+  describe("expandBraces", () => {
+    it("should expand alternatives and sequences", () => {
+      expect(expandBraces("{n,}pm")).toEqual(["npm", "pm"]);
+      expect(expandBraces("a{b,c{d,e}}")).toEqual(["ab", "acd", "ace"]);
+      expect(expandBraces("x{1..3}")).toEqual(["x1", "x2", "x3"]);
+      expect(expandBraces("{e..a..2}")).toEqual(["e", "c", "a"]);
+    });
+
+    it("should leave other braces alone", () => {
+      expect(expandBraces("{}")).toEqual(["{}"]);
+      expect(expandBraces("{npm}")).toEqual(["{npm}"]);
+      expect(expandBraces("{1..9999}")).toEqual(["{1..9999}"]);
+      const tenfold: string = "x" + "{a,b}".repeat(10);
+      expect(expandBraces(tenfold)).toEqual([tenfold]);
+    });
+
+    it("should stop expanding as soon as the words pass the limit", () => {
+      const chain: string = "{a,b}".repeat(40);
+      const start: number = performance.now();
+      expect(expandBraces(chain)).toEqual([chain]);
+      expect(performance.now() - start).toBeLessThan(500);
+    });
+  });
+
+  describe("expandWords", () => {
+    it("should expand known variables and split unquoted ones", () => {
+      const variables: Variables = new Map([["cmd", "npm install"]]);
+      expect(expand("$cmd -g", variables)).toEqual(["npm", "install", "-g"]);
+      expect(expand('"$cmd"', variables)).toEqual(["npm install"]);
+      expect(expand("${cmd}", variables)).toEqual(["npm", "install"]);
+    });
+
+    it("should not expand quoted braces", () => {
+      expect(expand("echo '{a,b}' {a,b}")).toEqual(["echo", "{a,b}", "a", "b"]);
+    });
+
+    it("should give up on unknown expansions", () => {
+      expect(expand("$HOME/bin/npm")).toBeUndefined();
+      expect(expand("${cmd:-npm}", new Map([["cmd", "npm"]]))).toBeUndefined();
+      expect(expand("$(curl example.com)")).toBeUndefined();
+    });
+
+    it("should expand substitutions of literal output", () => {
+      expect(expand("$(echo bnBt | base64 -d) i")).toEqual(["npm", "i"]);
+      expect(expand("`printf 'n\\x70m'`")).toEqual(["npm"]);
+    });
+  });
+
+  describe("pipelineOutput", () => {
+    it("should follow echo and printf through decoders", () => {
+      const output = (source: string) =>
+        pipelineOutput(commandsOf(source), new Map());
+      expect(output("echo -n a b")).toBe("a b");
+      expect(output("echo -e 'a\\tb\\c'x")).toBe("a\tb");
+      expect(output("printf '%s-%d\\n' a 1 b 2")).toBe("a-1\nb-2\n");
+      expect(output("echo bnBt | base64 --decode")).toBe("npm");
+      expect(output("printf 6e706d | xxd -r -p")).toBe("npm");
+      expect(output("echo mpn | rev")).toBe("npm\n");
+    });
+
+    it("should follow the heredocs and here-strings of cat", () => {
+      const output = (source: string) =>
+        pipelineOutput(commandsOf(source), new Map([["PM", "npm"]]));
+      expect(output("cat <<'EOF'\nnpm i\nEOF")).toBe("npm i\n");
+      expect(output("cat <<EOF\n$PM i\nEOF")).toBe("npm i\n");
+      expect(output("cat <<< 'npm i'")).toBe("npm i\n");
+      expect(output("echo npm | cat -")).toBe("npm\n");
+      expect(output("base64 -d <<< bnBt")).toBe("npm");
+    });
+
+    it("should give up on other programs and decoded files", () => {
+      const output = (source: string) =>
+        pipelineOutput(commandsOf(source), new Map());
+      expect(output("cat script.sh")).toBeUndefined();
+      expect(output("cat < script.sh")).toBeUndefined();
+      expect(output("cat <<EOF\n$CMD i\nEOF")).toBeUndefined();
+      expect(output("cat -n <<< 'npm i'")).toBeUndefined();
+      expect(output("echo x | base64 -d payload")).toBeUndefined();
+      expect(output("echo bnBt | base64")).toBeUndefined();
+    });
+  });
+});
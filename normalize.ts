@@ -0,0 +1,345 @@
+import { decodeEscapes } from "./shell-parser";
+import type {
+  Command,
+  List,
+  Redirect,
+  SimpleCommand,
+  Word,
+  WordPart,
+} from "./shell-parser";
+
+// Undo the shell tricks that hide a command from a plain reading of its
+// words: brace expansion, variables set earlier in the script, and text
+// built by echo, printf and base64 for a shell or a substitution to run
+
+// Variables assigned earlier in the script, by name
+export type Variables = Map<string, string>;
+
+// Brace expansions producing more words than this are left unexpanded
+const MAX_EXPANSION = 256;
+
+// Quoted and substituted characters take no part in brace expansion, so
+// they are swapped for private use characters while it runs
+const MASKED: Record<string, string> = {
+  "{": "\uE000",
+  ",": "\uE001",
+  "}": "\uE002",
+  ".": "\uE003",
+};
+
+function mask(text: string): string {
+  return text.replace(/[{,}.]/g, (c) => MASKED[c]);
+}
+
+function unmask(text: string): string {
+  return text.replace(/[\uE000-\uE003]/g, (c) =>
+    Object.keys(MASKED).find((key) => MASKED[key] === c)!
+  );
+}
+
+// The words of a `{1..3}` or `{a..e..2}` sequence
+function sequenceOf(body: string): string[] | undefined {
+  const found: RegExpExecArray | null =
+    /^(-?\d+|[a-zA-Z])\.\.(-?\d+|[a-zA-Z])(?:\.\.(-?\d+))?$/.exec(body);
+  if (!found) return undefined;
+  const [, from, to, by] = found;
+  const letters: boolean = isNaN(Number(from));
+  if (letters !== isNaN(Number(to))) return undefined;
+
+  const start: number = letters ? from.charCodeAt(0) : Number(from);
+  const end: number = letters ? to.charCodeAt(0) : Number(to);
+  const step: number = Math.abs(Number(by ?? 1)) || 1;
+  if (Math.abs(end - start) / step >= MAX_EXPANSION) return undefined;
+  const words: string[] = [];
+  for (
+    let value = start;
+    start <= end ? value <= end : value >= end;
+    value += start <= end ? step : -step
+  ) {
+    words.push(letters ? String.fromCharCode(value) : String(value));
+  }
+  return words;
+}
+
+// Bash brace expansion: `{n,}pm` is `npm pm`, `x{1..3}` is `x1 x2 x3`
+export function expandBraces(text: string): string[] {
+  const words: string[] = [];
+  return braceWordsOf(text, words) ? words : [text];
+}
+
+// Append the words of `text` to `words`, stopping as soon as there are more
+// than MAX_EXPANSION of them
+function braceWordsOf(text: string, words: string[]): boolean {
+  for (
+    let open: number = text.indexOf("{");
+    open !== -1;
+    open = text.indexOf("{", open + 1)
+  ) {
+    let depth = 0;
+    let close = -1;
+    const commas: number[] = [];
+    for (let i = open; i < text.length && close === -1; i++) {
+      if (text[i] === "{") depth++;
+      if (text[i] === "}" && --depth === 0) close = i;
+      if (text[i] === "," && depth === 1) commas.push(i);
+    }
+    if (close === -1) break;
+
+    const bounds: number[] = [open, ...commas, close];
+    const alternatives: string[] | undefined =
+      commas.length > 0
+        ? bounds.slice(1).map((end, i) => text.slice(bounds[i] + 1, end))
+        : sequenceOf(text.slice(open + 1, close));
+    if (!alternatives) continue;
+
+    const prefix: string = text.slice(0, open);
+    const suffix: string = text.slice(close + 1);
+    return alternatives.every((alternative) =>
+      braceWordsOf(prefix + alternative + suffix, words)
+    );
+  }
+  words.push(text);
+  return words.length <= MAX_EXPANSION;
+}
+
+// The text echo writes, which bash only unescapes with `-e`
+function echoOutput(args: string[]): string {
+  let newline = true;
+  let escapes = false;
+  let i = 0;
+  for (; i < args.length && /^-[neE]+$/.test(args[i]); i++) {
+    if (args[i].includes("n")) newline = false;
+    if (args[i].includes("e")) escapes = true;
+    if (args[i].includes("E")) escapes = false;
+  }
+  const text: string = args.slice(i).join(" ");
+  if (!escapes) return newline ? `${text}\n` : text;
+  // `\c` ends the output
+  const stop: number = text.indexOf("\\c");
+  if (stop !== -1) return decodeEscapes(text.slice(0, stop), "echo");
+  return decodeEscapes(text, "echo") + (newline ? "\n" : "");
+}
+
+// The text printf writes. The format is reused while arguments remain.
+function printfOutput(args: string[]): string | undefined {
+  let [format, ...values] = args;
+  if (format === "--") [format, ...values] = values;
+  if (format === undefined) return undefined;
+
+  const pattern = /%[-+ #0]*\d*(?:\.\d+)?([%sbcdiuoxXq])/g;
+  const decoded: string = decodeEscapes(format);
+  let output = "";
+  let next = 0;
+  for (;;) {
+    let consumed = false;
+    output += decoded.replace(pattern, (_, conversion: string) => {
+      if (conversion === "%") return "%";
+      consumed = true;
+      const value: string = values[next++] ?? "";
+      const number: number = parseInt(value, 10) || 0;
+      switch (conversion) {
+        case "b":
+          return decodeEscapes(value, "echo");
+        case "c":
+          return value.slice(0, 1);
+        case "d":
+        case "i":
+        case "u":
+          return String(number);
+        case "o":
+          return number.toString(8);
+        case "x":
+          return number.toString(16);
+        case "X":
+          return number.toString(16).toUpperCase();
+        default:
+          return value;
+      }
+    });
+    if (!consumed || next >= values.length) return output;
+  }
+}
+
+function decodeBase64(text: string): string | undefined {
+  const data: string = text.replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data)) return undefined;
+  return Buffer.from(data, "base64").toString("utf8");
+}
+
+function decodeHex(text: string): string | undefined {
+  const data: string = text.replace(/\s+/g, "");
+  if (!/^(?:[0-9a-fA-F]{2})*$/.test(data)) return undefined;
+  return Buffer.from(data, "hex").toString("utf8");
+}
+
+// The text a heredoc or here-string gives a command as its input, or the
+// output of the commands piped into it
+function inputOf(
+  command: SimpleCommand,
+  piped: Command[],
+  variables: Variables
+): string | undefined {
+  const redirect: Redirect | undefined = command.redirects
+    .filter(({ fd, operator }) => (fd ?? "0") === "0" && operator[0] === "<")
+    .at(-1);
+  if (!redirect) return pipelineOutput(piped, variables);
+  if (redirect.heredoc) return wordValue(redirect.heredoc, variables);
+  if (redirect.operator !== "<<<") return undefined;
+  const value: string | undefined = wordValue(redirect.target, variables);
+  return value === undefined ? undefined : `${value}\n`;
+}
+
+// The text the last of `commands` writes, when the pipeline is built from
+// literal echo and printf output or the heredoc of cat, decoded by base64,
+// `xxd -r -p` or rev
+export function pipelineOutput(
+  commands: Command[],
+  variables: Variables
+): string | undefined {
+  const last: Command | undefined = commands[commands.length - 1];
+  if (last?.type !== "simple" || last.words.length === 0) return undefined;
+  const values: string[] | undefined = expandWords(last.words, variables);
+  if (!values) return undefined;
+
+  const [program, ...args] = values;
+  const operands: string[] = args.filter((arg) => !arg.startsWith("-"));
+  const input = (): string | undefined =>
+    operands.length === 0
+      ? inputOf(last, commands.slice(0, -1), variables)
+      : undefined;
+  const decode = (
+    decoder: (text: string) => string | undefined
+  ): string | undefined => {
+    const text: string | undefined = input();
+    return text === undefined ? undefined : decoder(text);
+  };
+
+  switch (program) {
+    case "cat":
+      return args.every((arg) => arg === "-") ? input() : undefined;
+    case "echo":
+      return echoOutput(args);
+    case "printf":
+      return printfOutput(args);
+    case "base64":
+      return args.some((arg) => /^(?:-d|-D|--decode)$/.test(arg))
+        ? decode(decodeBase64)
+        : undefined;
+    case "xxd":
+      return args.includes("-r") && args.includes("-p")
+        ? decode(decodeHex)
+        : undefined;
+    case "rev":
+      return decode((text) =>
+        text
+          .split("\n")
+          .map((line) => [...line].reverse().join(""))
+          .join("\n")
+      );
+    default:
+      return undefined;
+  }
+}
+
+// The output of `$(...)`, without its trailing newlines
+function substitutionOutput(
+  script: List,
+  variables: Variables
+): string | undefined {
+  if (script.items.length !== 1) return undefined;
+  const [item] = script.items;
+  if (item.pipelines.length !== 1) return undefined;
+  return pipelineOutput(item.pipelines[0].commands, variables)?.replace(
+    /\n+$/,
+    ""
+  );
+}
+
+// The value of `$name` or `${name}` when the script set it, or of a
+// substitution whose output is known
+function resolvePart(
+  part: WordPart,
+  variables: Variables
+): string | undefined {
+  switch (part.type) {
+    case "literal":
+      return part.value;
+    case "parameter":
+      return /^\$\{?[A-Za-z_][A-Za-z0-9_]*\}?$/.test(part.text)
+        ? variables.get(part.name)
+        : undefined;
+    case "command-substitution":
+      return part.style === "process"
+        ? undefined
+        : substitutionOutput(part.script, variables);
+    default:
+      return undefined;
+  }
+}
+
+// The value of a word without splitting or brace expansion, as assigned to
+// a variable, or undefined when part of it is unknown
+export function wordValue(
+  word: Word,
+  variables: Variables
+): string | undefined {
+  let value = "";
+  for (const part of word.parts) {
+    const resolved: string | undefined = resolvePart(part, variables);
+    if (resolved === undefined) return undefined;
+    value += resolved;
+  }
+  return value;
+}
+
+// The words `word` expands to, or undefined when part of it is unknown.
+// Unquoted expansions are split on whitespace, and braces are expanded.
+export function expandWord(
+  word: Word,
+  variables: Variables
+): string[] | undefined {
+  const fields: string[] = [""];
+  for (const part of word.parts) {
+    const value: string | undefined = resolvePart(part, variables);
+    if (value === undefined) return undefined;
+    if (part.type === "literal") {
+      fields[fields.length - 1] +=
+        part.quote === "none" ? value : mask(value);
+    } else if ("quoted" in part && part.quoted) {
+      fields[fields.length - 1] += mask(value);
+    } else {
+      const [first, ...rest] = value.split(/[ \t\n]+/);
+      fields[fields.length - 1] += mask(first);
+      fields.push(...rest.map(mask));
+    }
+  }
+  return fields
+    .flatMap(expandBraces)
+    .map(unmask)
+    .filter((field, i, all) => field !== "" || all.length === 1);
+}
+
+// The words of a command after expansion, when every word is known
+export function expandWords(
+  words: Word[],
+  variables: Variables
+): string[] | undefined {
+  const values: string[] = [];
+  for (const word of words) {
+    const expanded: string[] | undefined = expandWord(word, variables);
+    if (!expanded) return undefined;
+    values.push(...expanded);
+  }
+  return values;
+}
+
+// Whether the basename of a program word is known without expanding it, as
+// in `$VIRTUAL_ENV/bin/python`
+export function hasStaticBasename(word: Word): boolean {
+  for (let i = word.parts.length - 1; i >= 0; i--) {
+    const part: WordPart = word.parts[i];
+    if (part.type !== "literal") return false;
+    if (part.value.includes("/")) return true;
+  }
+  return true;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  mkdir,
+  mkdtemp,
+  realpath,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { canonicalPathsOf, expandPath } from "./paths";
+import type { PathEnvironment } from "./paths";
+
+describe("Paths", () => {
+  const environment: PathEnvironment = {
+    root: "/work",
+    cwd: "/work/app",
+    home: "/home/me",
+    variables: { HOME: "/home/me", DIR: "config" },
+  };
+
+  it("should expand home directories and variables", () => {
+    expect(expandPath("~/.aws/credentials", environment)).toBe(
+      "/home/me/.aws/credentials"
+    );
+    expect(expandPath("$HOME/.netrc", environment)).toBe("/home/me/.netrc");
+    expect(expandPath("${DIR}/.env", environment)).toBe(
+      "/work/app/config/.env"
+    );
+    expect(expandPath("$UNSET/.env", environment)).toBe(
+      "/work/app/$UNSET/.env"
+    );
+    expect(expandPath("~user/.env", environment)).toBe("/work/app/~user/.env");
+  });
+
+  it("should resolve paths against the working directory", () => {
+    expect(expandPath("./sub/../.env", environment)).toBe("/work/app/.env");
+    expect(expandPath("../.env", environment)).toBe("/work/.env");
+    expect(expandPath("/proc/self/cwd/.env", environment)).toBe(
+      "/work/app/.env"
+    );
+    expect(expandPath("/proc/1/root/etc/shadow", environment)).toBe(
+      "/etc/shadow"
+    );
+  });
+
+  describe("canonicalPathsOf", () => {
+    let directory: string;
+    let workspace: PathEnvironment;
+
+    beforeEach(async () => {
+      directory = await realpath(await mkdtemp(join(tmpdir(), "paths-")));
+      workspace = { ...environment, root: directory, cwd: directory };
+      await writeFile(join(directory, ".env"), "API_KEY=abc\n");
+      await mkdir(join(directory, "config"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should make paths in the workspace relative to it", async () => {
+      expect(await canonicalPathsOf("config/../.env", workspace)).toEqual([
+        ".env",
+      ]);
+      const absolute: string = join(directory, ".env");
+      expect(await canonicalPathsOf(absolute, workspace)).toEqual([".env"]);
+      expect(await canonicalPathsOf("/etc/hosts", workspace)).toEqual([
+        "/etc/hosts",
+      ]);
+    });
+
+    it("should follow symlinks, also through missing files", async () => {
+      await symlink(join(directory, ".env"), join(directory, "settings"));
+      await symlink("config", join(directory, "link"));
+      expect(await canonicalPathsOf("settings", workspace)).toEqual([".env"]);
+      expect(await canonicalPathsOf("link/new.json", workspace)).toEqual([
+        "config/new.json",
+      ]);
+    });
+
+    it("should decode URLs and drop queries and fragments", async () => {
+      expect(
+        await canonicalPathsOf(`file://${directory}/%2eenv`, workspace)
+      ).toEqual([".env"]);
+      expect(await canonicalPathsOf("%2eenv", workspace)).toEqual([
+        "%2eenv",
+        ".env",
+      ]);
+      expect(await canonicalPathsOf(".env?version=1", workspace)).toEqual([
+        ".env?version=1",
+        ".env",
+      ]);
+      expect(await canonicalPathsOf("secrets.json#section", workspace)).toEqual(
+        ["secrets.json#section", "secrets.json"]
+      );
+    });
+  });
+});
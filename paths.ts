@@ -0,0 +1,107 @@
+import { realpath } from "node:fs/promises";
+import { homedir } from "node:os";
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Canonical forms of the paths tool calls name, so that rules see the file
+// that is actually read or written however the path was spelled
+
+export interface PathEnvironment {
+  // The workspace, which canonical paths inside it are made relative to
+  root: string;
+  // The directory relative paths are resolved against
+  cwd: string;
+  home: string;
+  variables: Record<string, string | undefined>;
+}
+
+export function pathEnvironmentOf(
+  root: string,
+  cwd: string = root
+): PathEnvironment {
+  return { root, cwd, home: homedir(), variables: process.env };
+}
+
+// `/proc/self/cwd` and the cwd link of any process are taken to be the
+// working directory; `/proc/self/root` is the file system root
+const PROC_CWD = /^\/proc\/[^/]+\/cwd(?=\/|$)/;
+const PROC_ROOT = /^\/proc\/[^/]+\/root(?=\/|$)/;
+
+// The spellings a path may stand for: `file:` URLs are decoded, and other
+// paths are also tried percent-decoded and without a query or fragment
+function variantsOf(path: string): string[] {
+  if (/^file:/i.test(path)) {
+    try {
+      return [fileURLToPath(path)];
+    } catch {
+      return [path];
+    }
+  }
+  const variants: string[] = [path];
+  if (/%[0-9a-f]{2}/i.test(path)) {
+    try {
+      variants.push(decodeURIComponent(path));
+    } catch {}
+  }
+  for (const variant of [...variants]) {
+    const stripped: string = variant.replace(/[?#].*$/, "");
+    if (stripped && stripped !== variant) variants.push(stripped);
+  }
+  return variants;
+}
+
+// Expand `~`, `$NAME` and `${NAME}`, map /proc links and resolve the path
+// against the working directory, without touching the file system
+export function expandPath(path: string, environment: PathEnvironment): string {
+  let expanded: string = path
+    .replace(/^~(?=\/|$)/, environment.home)
+    .replace(
+      /\$(?:\{([A-Za-z_]\w*)\}|([A-Za-z_]\w*))/g,
+      (text: string, braced?: string, plain?: string) =>
+        environment.variables[braced ?? plain ?? ""] ?? text
+    );
+  expanded = expanded
+    .replace(PROC_CWD, environment.cwd)
+    .replace(PROC_ROOT, "/");
+  return resolve(environment.cwd, expanded);
+}
+
+// The real path, following symlinks. Paths that do not exist yet, such as
+// files about to be written, resolve through their deepest existing parent.
+async function realPathOf(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch {
+    const parent: string = dirname(path);
+    if (parent === path) return path;
+    return join(await realPathOf(parent), basename(path));
+  }
+}
+
+// Paths inside the workspace are made relative to it, with `/` separators
+function workspacePathOf(path: string, root: string): string {
+  const inside: string = relative(root, path);
+  if (!inside || inside.startsWith("..") || isAbsolute(inside)) return path;
+  return inside.split("\\").join("/");
+}
+
+// The canonical forms of a path as written in a tool call
+export async function canonicalPathsOf(
+  path: string,
+  environment: PathEnvironment
+): Promise<string[]> {
+  const root: string = await realPathOf(environment.root);
+  const paths: string[] = [];
+  for (const variant of variantsOf(path)) {
+    const real: string = await realPathOf(expandPath(variant, environment));
+    paths.push(workspacePathOf(real, root));
+  }
+  return [...new Set(paths)];
+}
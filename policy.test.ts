@@ -0,0 +1,386 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { applyPolicy, loadPolicy, PolicyError } from "./policy";
+import type { Policy } from "./policy";
+
+const defaults: Policy = {
+  blockedCommands: { npm: "npm is blocked", pip: "pip is blocked" },
+  readOnlyFiles: { "yarn.lock": "yarn.lock is read-only" },
+  secretFiles: [".env*", "*auth*"],
+  caseInsensitiveGlobs: false,
+  secretFileReads: "block",
+  redactOutput: true,
+  secretVariables: ["*TOKEN*", "!GIT_TOKEN_HELPER"],
+  allowedGitCommands: ["git status", "git diff"],
+  gitTiers: ["read-only"],
+  rules: [],
+  mode: "enforce",
+  severities: { git: "block" },
+  auditLog: null,
+  rewrite: false,
+  contentRules: {
+    "ts-any": { files: ["*.ts"], pattern: "any", message: "no any" },
+  },
+  flakeSchemes: { local: "deny", github: "allow" },
+  sanctionedHosts: { pip: ["uv"] },
+  wrappers: { sudo: { options: { "-u": 1 } }, nohup: {} },
+};
+
+describe("Policy", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "command-blocker-"));
+    await mkdir(join(directory, ".opencode"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function writePolicy(name: string, content: string): Promise<void> {
+    await writeFile(join(directory, ".opencode", name), content);
+  }
+
+  describe("applyPolicy", () => {
+    it("should add, override and remove map entries", () => {
+      const policy = applyPolicy(defaults, {
+        blockedCommands: { deno: "deno is blocked", npm: "use bun", pip: null },
+      });
+      expect(policy.blockedCommands).toEqual({
+        npm: "use bun",
+        deno: "deno is blocked",
+      });
+    });
+
+    it("should add and remove list entries", () => {
+      const policy = applyPolicy(defaults, {
+        secretFiles: { add: ["*.tfstate"], remove: ["*auth*"] },
+      });
+      expect(policy.secretFiles).toEqual([".env*", "*.tfstate"]);
+    });
+
+    it("should replace lists given as arrays", () => {
+      const policy = applyPolicy(defaults, {
+        allowedGitCommands: ["git log"],
+      });
+      expect(policy.allowedGitCommands).toEqual(["git log"]);
+    });
+
+    it("should not mutate the defaults", () => {
+      applyPolicy(defaults, {
+        readOnlyFiles: { "yarn.lock": null },
+        secretFiles: { add: ["x"] },
+      });
+      expect(defaults.readOnlyFiles).toEqual({
+        "yarn.lock": "yarn.lock is read-only",
+      });
+      expect(defaults.secretFiles).toEqual([".env*", "*auth*"]);
+    });
+  });
+
+  describe("loadPolicy", () => {
+    it("should return the defaults without a policy file", async () => {
+      expect(await loadPolicy(directory, defaults)).toBe(defaults);
+    });
+
+    it("should load a JSON policy", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ readOnlyFiles: { "deno.lock": "deno.lock is read-only" } })
+      );
+      const policy = await loadPolicy(directory, defaults);
+      expect(policy.readOnlyFiles["deno.lock"]).toBe("deno.lock is read-only");
+      expect(policy.readOnlyFiles["yarn.lock"]).toBe("yarn.lock is read-only");
+    });
+
+    it("should load a JSONC policy with comments and trailing commas", async () => {
+      await writePolicy(
+        "command-blocker.jsonc",
+        `{
+          // Allow reading auth modules
+          "secretFiles": { "remove": ["*auth*"], },
+          /* keep "//" inside strings */
+          "blockedCommands": { "curl": "no // network", "wget": "foo,}" },
+          "readOnlyFiles": { "a.lock": "\\\\d{2,}", }, // trailing
+        }`
+      );
+      const policy = await loadPolicy(directory, defaults);
+      expect(policy.secretFiles).toEqual([".env*"]);
+      expect(policy.blockedCommands.curl).toBe("no // network");
+      // Commas inside strings are kept
+      expect(policy.blockedCommands.wget).toBe("foo,}");
+      expect(policy.readOnlyFiles["a.lock"]).toBe("\\d{2,}");
+    });
+
+    it("should load a YAML policy", async () => {
+      await writePolicy(
+        "command-blocker.yaml",
+        "allowedGitCommands:\n  add:\n    - git blame\n"
+      );
+      const policy = await loadPolicy(directory, defaults);
+      expect(policy.allowedGitCommands).toEqual([
+        "git status",
+        "git diff",
+        "git blame",
+      ]);
+    });
+
+    it("should report malformed files", async () => {
+      await writePolicy("command-blocker.json", "{ not json");
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(PolicyError);
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        "Invalid command-blocker policy in"
+      );
+    });
+
+    it("should report invalid table shapes", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ secretFiles: { add: "*.tfstate" } })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"secretFiles.add" must be an array of strings'
+      );
+    });
+
+    it("should append rule definitions", async () => {
+      await writePolicy(
+        "command-blocker.yaml",
+        "rules:\n  - id: no-curl\n    command: curl\n    message: no curl\n"
+      );
+      const policy = await loadPolicy(directory, defaults);
+      expect(policy.rules).toEqual([
+        { id: "no-curl", command: "curl", message: "no curl" },
+      ]);
+    });
+
+    it("should report invalid rule definitions", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ rules: [{ id: "x", message: "y" }] })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"rules[0]" needs at least one of "command", "path" or "pattern"'
+      );
+
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ rules: [{ id: "x", message: "y", pattern: "(" }] })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"rules[0].pattern" is not a valid regular expression'
+      );
+    });
+
+    it("should load the mode and severities", async () => {
+      await writePolicy(
+        "command-blocker.yaml",
+        "mode: warn\nseverities:\n  git: null\n  'secret-file:*auth*': warn\n"
+      );
+      const policy = await loadPolicy(directory, defaults);
+      expect(policy.mode).toBe("warn");
+      expect(policy.severities).toEqual({ "secret-file:*auth*": "warn" });
+    });
+
+    it("should report invalid modes and severities", async () => {
+      await writePolicy("command-blocker.json", JSON.stringify({ mode: "audit" }));
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"mode" must be "enforce" or "warn"'
+      );
+
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ severities: { npm: "error" } })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"severities.npm" must be "block", "warn", "off" or null'
+      );
+    });
+
+    it("should load the audit log path", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ auditLog: ".opencode/audit.jsonl" })
+      );
+      expect((await loadPolicy(directory, defaults)).auditLog).toBe(
+        ".opencode/audit.jsonl"
+      );
+
+      await writePolicy("command-blocker.json", JSON.stringify({ auditLog: 1 }));
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"auditLog" must be a file path or null'
+      );
+    });
+
+    it("should load the rewrite setting", async () => {
+      await writePolicy("command-blocker.yaml", "rewrite:\n  - npx\n");
+      expect((await loadPolicy(directory, defaults)).rewrite).toEqual(["npx"]);
+
+      await writePolicy("command-blocker.yaml", "rewrite: yes please\n");
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"rewrite" must be a boolean or an array of rule ids'
+      );
+    });
+
+    it("should load the glob case setting", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ caseInsensitiveGlobs: true })
+      );
+      expect(
+        (await loadPolicy(directory, defaults)).caseInsensitiveGlobs
+      ).toBe(true);
+
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ caseInsensitiveGlobs: "yes" })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"caseInsensitiveGlobs" must be a boolean'
+      );
+    });
+
+    it("should load the secret file read setting", async () => {
+      await writePolicy("command-blocker.yaml", "secretFileReads: redact\n");
+      expect((await loadPolicy(directory, defaults)).secretFileReads).toBe(
+        "redact"
+      );
+
+      await writePolicy("command-blocker.yaml", "secretFileReads: allow\n");
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"secretFileReads" must be "block" or "redact"'
+      );
+    });
+
+    it("should add, override and remove content rules", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({
+          contentRules: {
+            "ts-any": { files: ["src/**/*.ts"] },
+            "no-console": {
+              files: ["*.ts"],
+              pattern: "console\\.log",
+              message: "no console.log",
+            },
+          },
+        })
+      );
+      const policy = await loadPolicy(directory, defaults);
+      expect(policy.contentRules).toEqual({
+        "ts-any": { files: ["src/**/*.ts"], pattern: "any", message: "no any" },
+        "no-console": {
+          files: ["*.ts"],
+          pattern: "console\\.log",
+          message: "no console.log",
+        },
+      });
+
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ contentRules: { "ts-any": null } })
+      );
+      expect((await loadPolicy(directory, defaults)).contentRules).toEqual({});
+    });
+
+    it("should report incomplete content rules", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ contentRules: { "no-todo": { pattern: "TODO" } } })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"contentRules.no-todo.files" is required'
+      );
+    });
+
+    it("should report unknown git tiers", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ gitTiers: { add: ["push"] } })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"gitTiers" entries must be one of "read-only", "local-write", "history-rewrite", "remote-write"'
+      );
+    });
+
+    it("should load flake scheme access and reject unknown values", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ flakeSchemes: { gitlab: "deny", local: null } })
+      );
+      expect((await loadPolicy(directory, defaults)).flakeSchemes).toEqual({
+        github: "allow",
+        gitlab: "deny",
+      });
+
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ flakeSchemes: { github: true } })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"flakeSchemes.github" must be "allow", "deny" or null'
+      );
+    });
+
+    it("should replace and remove sanctioned hosts per program", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ sanctionedHosts: { pip: ["uvx"], node: ["bun"] } })
+      );
+      expect((await loadPolicy(directory, defaults)).sanctionedHosts).toEqual({
+        pip: ["uvx"],
+        node: ["bun"],
+      });
+
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ sanctionedHosts: { pip: "uv" } })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"sanctionedHosts.pip" must be an array of strings or null'
+      );
+    });
+
+    it("should replace and remove wrappers", async () => {
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({
+          wrappers: { nohup: null, timeout: { operands: 1 } },
+        })
+      );
+      expect((await loadPolicy(directory, defaults)).wrappers).toEqual({
+        sudo: { options: { "-u": 1 } },
+        timeout: { operands: 1 },
+      });
+
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ wrappers: { sudo: { options: { "-u": "user" } } } })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        '"wrappers.sudo.options" must map options to the number of values they take'
+      );
+
+      await writePolicy(
+        "command-blocker.json",
+        JSON.stringify({ wrappers: { sudo: { arity: 1 } } })
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        'unknown key "wrappers.sudo.arity"'
+      );
+    });
+
+    it("should report unknown keys", async () => {
+      await writePolicy(
+        "command-blocker.yml",
+        "secretFile:\n  - '*.tfstate'\n"
+      );
+      await expect(loadPolicy(directory, defaults)).rejects.toThrow(
+        'unknown key "secretFile"'
+      );
+    });
+  });
+});
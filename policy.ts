@@ -0,0 +1,600 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { GIT_TIERS } from "./git";
+import type { GitTier } from "./git";
+
+export type Severity = "block" | "warn" | "off";
+
+// In "warn" mode every violation is recorded and let through
+export type EnforcementMode = "enforce" | "warn";
+
+// Whether nix may use flake references with a scheme
+export type FlakeSchemeAccess = "allow" | "deny";
+
+// A declarative rule contributed by the policy file
+export interface RuleDefinition {
+  id: string;
+  tools?: string[];
+  command?: string | string[];
+  path?: string | string[];
+  pattern?: string;
+  message: string;
+  suggestion?: string;
+}
+
+// A lint rule for the lines added by edit and write calls, keyed by rule id
+export interface ContentRuleDefinition {
+  // Globs matched against the file path, or its name for globs without `/`
+  files: string[];
+  // Regular expression tested against each added line
+  pattern: string;
+  message: string;
+  // Ignore matches inside string literals and comments
+  codeOnly?: boolean;
+}
+
+// A command that runs the command given in its arguments, such as `sudo`
+export interface WrapperDefinition {
+  // Options that take values, with the number of words each takes
+  options?: Record<string, number>;
+  // Arguments between the options and the command, such as the duration in
+  // `timeout 30 npm test`
+  operands?: number;
+  // Options that make the wrapper look the command up instead of running it,
+  // such as `command -v`
+  queries?: string[];
+  // Options followed by a command that ends at `;` or `{} +`, such as
+  // `find -exec`, instead of the command following the options
+  exec?: string[];
+  // Whether the command words are joined and run by a shell, as by `watch`
+  shell?: boolean;
+  // Options whose value is a command line that the wrapper splits into
+  // words, such as `env -S 'npm i'`
+  split?: string[];
+}
+
+// How read calls of secret files are handled: blocked, or let through with
+// the values in files of a known format redacted
+export type SecretFileReads = "block" | "redact";
+
+export interface Policy {
+  blockedCommands: Record<string, string>;
+  readOnlyFiles: Record<string, string>;
+  // Globs matched against the file path, or its name for globs without `/`.
+  // A `!glob` exempts the files it matches from the globs before it.
+  secretFiles: string[];
+  // Whether file globs match regardless of case, as on the default macOS
+  // and Windows file systems
+  caseInsensitiveGlobs: boolean;
+  secretFileReads: SecretFileReads;
+  // Whether secrets in the output of bash and read calls are masked
+  redactOutput: boolean;
+  // Globs of environment variable names whose values are secret, which may
+  // not be printed. A `!glob` exempts the names it matches.
+  secretVariables: string[];
+  // Git commands allowed regardless of tier, matched by word prefix after
+  // global options such as `-C <dir>` are removed
+  allowedGitCommands: string[];
+  gitTiers: GitTier[];
+  rules: RuleDefinition[];
+  mode: EnforcementMode;
+  // Keyed by rule id, or `<rule id>:<entry>` for a single table entry such
+  // as `secret-file:*auth*`
+  severities: Record<string, Severity>;
+  // JSONL file, relative to the project root, recording every decision
+  auditLog: string | null;
+  // Rewrite blocked commands with a safe suggestion instead of blocking them:
+  // true for every rewritable rule, or a list of rule ids
+  rewrite: boolean | string[];
+  contentRules: Record<string, ContentRuleDefinition>;
+  // Keyed by flake reference scheme, such as `github` or `git+ssh`, plus
+  // `local` for paths without a scheme and `registry` for indirect
+  // references; schemes not in the table are denied
+  flakeSchemes: Record<string, FlakeSchemeAccess>;
+  // Hosts under which a blocked program may run, keyed by program and
+  // matched by word prefix: `uv` sanctions `pip` in `uv run pip` and `uvx pip`
+  sanctionedHosts: Record<string, string[]>;
+  // Wrappers keyed by program name, whose commands are checked like any other
+  wrappers: Record<string, WrapperDefinition>;
+}
+
+// Map tables: a string adds or overrides an entry, null removes it.
+type MapOverride = Record<string, string | null>;
+
+// List tables: an array replaces the defaults, add/remove edit them.
+type ListOverride = string[] | { add?: string[]; remove?: string[] };
+
+export interface PolicyOverrides {
+  blockedCommands?: MapOverride;
+  readOnlyFiles?: MapOverride;
+  secretFiles?: ListOverride;
+  caseInsensitiveGlobs?: boolean;
+  secretFileReads?: SecretFileReads;
+  redactOutput?: boolean;
+  secretVariables?: ListOverride;
+  allowedGitCommands?: ListOverride;
+  gitTiers?: ListOverride;
+  rules?: RuleDefinition[];
+  mode?: EnforcementMode;
+  severities?: Record<string, Severity | null>;
+  auditLog?: string | null;
+  rewrite?: boolean | string[];
+  // An object adds a rule or overrides some of its fields, null removes it
+  contentRules?: Record<string, Partial<ContentRuleDefinition> | null>;
+  flakeSchemes?: Record<string, FlakeSchemeAccess | null>;
+  // An array replaces a program's hosts, null removes them
+  sanctionedHosts?: Record<string, string[] | null>;
+  // An object replaces a wrapper's definition, null removes it
+  wrappers?: Record<string, WrapperDefinition | null>;
+}
+
+export const POLICY_FILES: readonly string[] = [
+  ".opencode/command-blocker.json",
+  ".opencode/command-blocker.jsonc",
+  ".opencode/command-blocker.yaml",
+  ".opencode/command-blocker.yml",
+];
+
+const MAP_TABLES: readonly string[] = ["blockedCommands", "readOnlyFiles"];
+const LIST_TABLES: readonly string[] = [
+  "secretFiles",
+  "secretVariables",
+  "allowedGitCommands",
+  "gitTiers",
+];
+export const SEVERITIES: readonly Severity[] = ["block", "warn", "off"];
+export const MODES: readonly EnforcementMode[] = ["enforce", "warn"];
+export const SECRET_FILE_READS: readonly SecretFileReads[] = ["block", "redact"];
+export const FLAKE_SCHEME_ACCESS: readonly FlakeSchemeAccess[] = [
+  "allow",
+  "deny",
+];
+
+export class PolicyError extends Error {
+  constructor(
+    readonly file: string,
+    message: string
+  ) {
+    super(`Invalid command-blocker policy in ${file}: ${message}`);
+    this.name = "PolicyError";
+  }
+}
+
+// Strip // and /* */ comments and trailing commas, leaving strings intact
+function stripJsonComments(text: string): string {
+  let result = "";
+  // Index in the result of a comma that is trailing if a } or ] comes next
+  let comma = -1;
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '"') {
+      comma = -1;
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      result += text.slice(i, end + 1);
+      i = end + 1;
+    } else if (c === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (c === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      if ((c === "}" || c === "]") && comma !== -1) {
+        result = result.slice(0, comma) + result.slice(comma + 1);
+      }
+      if (c === ",") {
+        comma = result.length;
+      } else if (!/\s/.test(c)) {
+        comma = -1;
+      }
+      result += c;
+      i++;
+    }
+  }
+  return result;
+}
+
+function parsePolicyText(file: string, text: string): unknown {
+  try {
+    if (file.endsWith(".yaml") || file.endsWith(".yml")) {
+      return parseYaml(text) ?? {};
+    }
+    if (file.endsWith(".jsonc")) {
+      return JSON.parse(stripJsonComments(text));
+    }
+    return JSON.parse(text);
+  } catch (error) {
+    throw new PolicyError(file, (error as Error).message);
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateRule(file: string, index: number, rule: unknown): void {
+  const where = `rules[${index}]`;
+  if (!isObject(rule)) {
+    throw new PolicyError(file, `"${where}" must be an object`);
+  }
+  if (typeof rule.id !== "string" || !rule.id) {
+    throw new PolicyError(file, `"${where}.id" must be a non-empty string`);
+  }
+  if (typeof rule.message !== "string") {
+    throw new PolicyError(file, `"${where}.message" must be a string`);
+  }
+  if (rule.suggestion !== undefined && typeof rule.suggestion !== "string") {
+    throw new PolicyError(file, `"${where}.suggestion" must be a string`);
+  }
+  if (rule.tools !== undefined && !isStringArray(rule.tools)) {
+    throw new PolicyError(file, `"${where}.tools" must be an array of strings`);
+  }
+  for (const key of ["command", "path"]) {
+    const value = rule[key];
+    if (
+      value !== undefined &&
+      typeof value !== "string" &&
+      !isStringArray(value)
+    ) {
+      throw new PolicyError(
+        file,
+        `"${where}.${key}" must be a string or an array of strings`
+      );
+    }
+  }
+  if (rule.pattern !== undefined) {
+    try {
+      new RegExp(rule.pattern as string);
+    } catch (error) {
+      throw new PolicyError(
+        file,
+        `"${where}.pattern" is not a valid regular expression: ${(error as Error).message}`
+      );
+    }
+  }
+  if (
+    rule.command === undefined &&
+    rule.path === undefined &&
+    rule.pattern === undefined
+  ) {
+    throw new PolicyError(
+      file,
+      `"${where}" needs at least one of "command", "path" or "pattern"`
+    );
+  }
+}
+
+function validateContentRule(file: string, where: string, rule: unknown): void {
+  if (!isObject(rule)) {
+    throw new PolicyError(file, `"${where}" must be an object or null`);
+  }
+  for (const key of Object.keys(rule)) {
+    if (!["files", "pattern", "message", "codeOnly"].includes(key)) {
+      throw new PolicyError(file, `unknown key "${where}.${key}"`);
+    }
+  }
+  if (rule.files !== undefined && !isStringArray(rule.files)) {
+    throw new PolicyError(file, `"${where}.files" must be an array of strings`);
+  }
+  if (rule.message !== undefined && typeof rule.message !== "string") {
+    throw new PolicyError(file, `"${where}.message" must be a string`);
+  }
+  if (rule.codeOnly !== undefined && typeof rule.codeOnly !== "boolean") {
+    throw new PolicyError(file, `"${where}.codeOnly" must be a boolean`);
+  }
+  if (rule.pattern !== undefined) {
+    try {
+      new RegExp(rule.pattern as string);
+    } catch (error) {
+      throw new PolicyError(
+        file,
+        `"${where}.pattern" is not a valid regular expression: ${(error as Error).message}`
+      );
+    }
+  }
+}
+
+function validateWrapper(file: string, where: string, wrapper: unknown): void {
+  if (!isObject(wrapper)) {
+    throw new PolicyError(file, `"${where}" must be an object or null`);
+  }
+  for (const key of Object.keys(wrapper)) {
+    if (
+      !["options", "operands", "queries", "exec", "shell", "split"].includes(key)
+    ) {
+      throw new PolicyError(file, `unknown key "${where}.${key}"`);
+    }
+  }
+  const isCount = (value: unknown): boolean =>
+    Number.isInteger(value) && (value as number) >= 0;
+  if (
+    wrapper.options !== undefined &&
+    (!isObject(wrapper.options) || !Object.values(wrapper.options).every(isCount))
+  ) {
+    throw new PolicyError(
+      file,
+      `"${where}.options" must map options to the number of values they take`
+    );
+  }
+  if (wrapper.operands !== undefined && !isCount(wrapper.operands)) {
+    throw new PolicyError(
+      file,
+      `"${where}.operands" must be a non-negative integer`
+    );
+  }
+  for (const key of ["queries", "exec", "split"]) {
+    if (wrapper[key] !== undefined && !isStringArray(wrapper[key])) {
+      throw new PolicyError(file, `"${where}.${key}" must be an array of strings`);
+    }
+  }
+  if (wrapper.shell !== undefined && typeof wrapper.shell !== "boolean") {
+    throw new PolicyError(file, `"${where}.shell" must be a boolean`);
+  }
+}
+
+function validateGitTiers(file: string, table: unknown): void {
+  const entries: unknown[] = Array.isArray(table)
+    ? table
+    : isObject(table)
+      ? Object.values(table).flatMap((value) => (Array.isArray(value) ? value : []))
+      : [];
+  for (const entry of entries) {
+    if (!GIT_TIERS.includes(entry as GitTier)) {
+      throw new PolicyError(
+        file,
+        `"gitTiers" entries must be one of ${GIT_TIERS.map((tier) => `"${tier}"`).join(", ")}`
+      );
+    }
+  }
+}
+
+export function validatePolicy(file: string, value: unknown): PolicyOverrides {
+  if (!isObject(value)) {
+    throw new PolicyError(file, "expected an object at the top level");
+  }
+
+  for (const [key, table] of Object.entries(value)) {
+    if (MAP_TABLES.includes(key)) {
+      if (!isObject(table)) {
+        throw new PolicyError(file, `"${key}" must be an object`);
+      }
+      for (const [entry, message] of Object.entries(table)) {
+        if (message !== null && typeof message !== "string") {
+          throw new PolicyError(
+            file,
+            `"${key}.${entry}" must be a message string or null`
+          );
+        }
+      }
+    } else if (LIST_TABLES.includes(key)) {
+      if (key === "gitTiers") validateGitTiers(file, table);
+      if (isStringArray(table)) continue;
+      if (!isObject(table)) {
+        throw new PolicyError(
+          file,
+          `"${key}" must be an array or an object with "add"/"remove"`
+        );
+      }
+      for (const [operation, entries] of Object.entries(table)) {
+        if (operation !== "add" && operation !== "remove") {
+          throw new PolicyError(file, `unknown key "${key}.${operation}"`);
+        }
+        if (!isStringArray(entries)) {
+          throw new PolicyError(
+            file,
+            `"${key}.${operation}" must be an array of strings`
+          );
+        }
+      }
+    } else if (key === "rules") {
+      if (!Array.isArray(table)) {
+        throw new PolicyError(file, `"rules" must be an array`);
+      }
+      table.forEach((rule, index) => validateRule(file, index, rule));
+    } else if (key === "mode") {
+      if (!MODES.includes(table as EnforcementMode)) {
+        throw new PolicyError(file, `"mode" must be "enforce" or "warn"`);
+      }
+    } else if (key === "auditLog") {
+      if (table !== null && (typeof table !== "string" || !table)) {
+        throw new PolicyError(file, `"auditLog" must be a file path or null`);
+      }
+    } else if (key === "caseInsensitiveGlobs" || key === "redactOutput") {
+      if (typeof table !== "boolean") {
+        throw new PolicyError(file, `"${key}" must be a boolean`);
+      }
+    } else if (key === "secretFileReads") {
+      if (!SECRET_FILE_READS.includes(table as SecretFileReads)) {
+        throw new PolicyError(
+          file,
+          `"secretFileReads" must be "block" or "redact"`
+        );
+      }
+    } else if (key === "rewrite") {
+      if (typeof table !== "boolean" && !isStringArray(table)) {
+        throw new PolicyError(
+          file,
+          `"rewrite" must be a boolean or an array of rule ids`
+        );
+      }
+    } else if (key === "contentRules") {
+      if (!isObject(table)) {
+        throw new PolicyError(file, `"contentRules" must be an object`);
+      }
+      for (const [id, rule] of Object.entries(table)) {
+        if (rule !== null) validateContentRule(file, `contentRules.${id}`, rule);
+      }
+    } else if (key === "flakeSchemes") {
+      if (!isObject(table)) {
+        throw new PolicyError(file, `"flakeSchemes" must be an object`);
+      }
+      for (const [scheme, access] of Object.entries(table)) {
+        if (
+          access !== null &&
+          !FLAKE_SCHEME_ACCESS.includes(access as FlakeSchemeAccess)
+        ) {
+          throw new PolicyError(
+            file,
+            `"flakeSchemes.${scheme}" must be "allow", "deny" or null`
+          );
+        }
+      }
+    } else if (key === "sanctionedHosts") {
+      if (!isObject(table)) {
+        throw new PolicyError(file, `"sanctionedHosts" must be an object`);
+      }
+      for (const [program, hosts] of Object.entries(table)) {
+        if (hosts !== null && !isStringArray(hosts)) {
+          throw new PolicyError(
+            file,
+            `"sanctionedHosts.${program}" must be an array of strings or null`
+          );
+        }
+      }
+    } else if (key === "wrappers") {
+      if (!isObject(table)) {
+        throw new PolicyError(file, `"wrappers" must be an object`);
+      }
+      for (const [program, wrapper] of Object.entries(table)) {
+        if (wrapper !== null) validateWrapper(file, `wrappers.${program}`, wrapper);
+      }
+    } else if (key === "severities") {
+      if (!isObject(table)) {
+        throw new PolicyError(file, `"severities" must be an object`);
+      }
+      for (const [id, severity] of Object.entries(table)) {
+        if (severity !== null && !SEVERITIES.includes(severity as Severity)) {
+          throw new PolicyError(
+            file,
+            `"severities.${id}" must be "block", "warn", "off" or null`
+          );
+        }
+      }
+    } else {
+      throw new PolicyError(file, `unknown key "${key}"`);
+    }
+  }
+
+  return value as PolicyOverrides;
+}
+
+function applyMap<T>(
+  defaults: Record<string, T>,
+  override: Record<string, T | null> | undefined
+): Record<string, T> {
+  const result: Record<string, T> = { ...defaults };
+  for (const [key, message] of Object.entries(override ?? {})) {
+    if (message === null) {
+      delete result[key];
+    } else {
+      result[key] = message;
+    }
+  }
+  return result;
+}
+
+function applyContentRules(
+  defaults: Record<string, ContentRuleDefinition>,
+  override: PolicyOverrides["contentRules"]
+): Record<string, ContentRuleDefinition> {
+  const result: Record<string, ContentRuleDefinition> = { ...defaults };
+  for (const [id, rule] of Object.entries(override ?? {})) {
+    if (rule === null) {
+      delete result[id];
+    } else {
+      result[id] = { ...result[id], ...rule } as ContentRuleDefinition;
+    }
+  }
+  return result;
+}
+
+function applyList(
+  defaults: string[],
+  override: ListOverride | undefined
+): string[] {
+  if (!override) return [...defaults];
+  if (Array.isArray(override)) return [...override];
+  const removed = new Set(override.remove ?? []);
+  return [
+    ...defaults.filter((entry) => !removed.has(entry)),
+    ...(override.add ?? []).filter((entry) => !defaults.includes(entry)),
+  ];
+}
+
+export function applyPolicy(
+  defaults: Policy,
+  overrides: PolicyOverrides
+): Policy {
+  return {
+    blockedCommands: applyMap(defaults.blockedCommands, overrides.blockedCommands),
+    readOnlyFiles: applyMap(defaults.readOnlyFiles, overrides.readOnlyFiles),
+    secretFiles: applyList(defaults.secretFiles, overrides.secretFiles),
+    caseInsensitiveGlobs:
+      overrides.caseInsensitiveGlobs ?? defaults.caseInsensitiveGlobs,
+    secretFileReads: overrides.secretFileReads ?? defaults.secretFileReads,
+    redactOutput: overrides.redactOutput ?? defaults.redactOutput,
+    secretVariables: applyList(
+      defaults.secretVariables,
+      overrides.secretVariables
+    ),
+    allowedGitCommands: applyList(
+      defaults.allowedGitCommands,
+      overrides.allowedGitCommands
+    ),
+    gitTiers: applyList(defaults.gitTiers, overrides.gitTiers) as GitTier[],
+    rules: [...defaults.rules, ...(overrides.rules ?? [])],
+    mode: overrides.mode ?? defaults.mode,
+    severities: applyMap(defaults.severities, overrides.severities),
+    auditLog:
+      overrides.auditLog !== undefined ? overrides.auditLog : defaults.auditLog,
+    rewrite: overrides.rewrite ?? defaults.rewrite,
+    contentRules: applyContentRules(defaults.contentRules, overrides.contentRules),
+    flakeSchemes: applyMap(defaults.flakeSchemes, overrides.flakeSchemes),
+    sanctionedHosts: applyMap(
+      defaults.sanctionedHosts,
+      overrides.sanctionedHosts
+    ),
+    wrappers: applyMap(defaults.wrappers, overrides.wrappers),
+  };
+}
+
+// Load the first policy file found in the project directory, if any
+export async function loadPolicy(
+  directory: string,
+  defaults: Policy
+): Promise<Policy> {
+  for (const name of POLICY_FILES) {
+    const file = join(directory, name);
+    let text: string;
+    try {
+      text = await readFile(file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+      throw new PolicyError(file, (error as Error).message);
+    }
+    const policy: Policy = applyPolicy(
+      defaults,
+      validatePolicy(file, parsePolicyText(file, text))
+    );
+    // New content rules must define every field
+    for (const [id, rule] of Object.entries(policy.contentRules)) {
+      for (const key of ["files", "pattern", "message"] as const) {
+        if (rule[key] === undefined) {
+          throw new PolicyError(file, `"contentRules.${id}.${key}" is required`);
+        }
+      }
+    }
+    return policy;
+  }
+  return defaults;
+}
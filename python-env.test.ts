@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { collectInvocations } from "./invocations";
+import { PythonEnvironments } from "./python-env";
+
+// A `$` whose `test -f <file>` succeeds for the given files
+function shellWith(files: string[]): any {
+  return vi.fn((_strings: TemplateStringsArray, file: string) => {
+    const result = Promise.resolve({ exitCode: files.includes(file) ? 0 : 1 });
+    return Object.assign(result, {
+      nothrow: () => result,
+      quiet: () => result,
+    });
+  });
+}
+
+function isVirtualEnvPython(
+  environments: PythonEnvironments,
+  command: string
+): Promise<boolean> {
+  return environments.isVirtualEnvPython(collectInvocations(command)[0]);
+}
+
+describe("Python environments", () => {
+  describe("conventional venv directories", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "python-env-"));
+      for (const name of [".venv", "venv"]) {
+        await mkdir(join(directory, name));
+        await writeFile(join(directory, name, "pyvenv.cfg"), "");
+      }
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should accept them when they have a pyvenv.cfg", async () => {
+      const environments = new PythonEnvironments(undefined, directory);
+      for (const command of [
+        ".venv/bin/python x.py",
+        "./venv/bin/python3",
+        "venv/bin/python3.12",
+      ]) {
+        expect(await isVirtualEnvPython(environments, command)).toBe(true);
+      }
+    });
+
+    it("should not trust their names alone", async () => {
+      const environments = new PythonEnvironments(shellWith([]), directory);
+      for (const command of [
+        "env/bin/python -m pip install evil",
+        "../../../.venv/bin/python3 x",
+        "../venv/bin/python",
+      ]) {
+        expect(await isVirtualEnvPython(environments, command)).toBe(false);
+      }
+    });
+  });
+
+  it("should reject lookalike paths without a pyvenv.cfg", async () => {
+    const environments = new PythonEnvironments(shellWith([]), "/project");
+    for (const command of [
+      "/tmp/evil-env/bin/python",
+      "tools/evil-env/bin/python",
+      "/tmp/x/.venv/bin/python",
+      "python3",
+    ]) {
+      expect(await isVirtualEnvPython(environments, command)).toBe(false);
+    }
+  });
+
+  it("should accept environments that have a pyvenv.cfg", async () => {
+    const $ = shellWith(["/project/tools/env-3.12/pyvenv.cfg"]);
+    const environments = new PythonEnvironments($, "/project");
+    expect(
+      await isVirtualEnvPython(environments, "tools/env-3.12/bin/python3 -m pytest")
+    ).toBe(true);
+    expect(
+      await isVirtualEnvPython(environments, "./tools/env-3.12/bin/python")
+    ).toBe(true);
+    // Found environments are remembered
+    expect($).toHaveBeenCalledTimes(1);
+  });
+
+  it("should accept $VIRTUAL_ENV unless the command sets it", async () => {
+    const environments = new PythonEnvironments(shellWith([]), "/project");
+    expect(
+      await isVirtualEnvPython(environments, '"$VIRTUAL_ENV/bin/python" -V')
+    ).toBe(true);
+    expect(
+      await isVirtualEnvPython(environments, "VIRTUAL_ENV=/tmp $VIRTUAL_ENV/bin/python")
+    ).toBe(false);
+    expect(
+      await isVirtualEnvPython(environments, "$HOME/venv/bin/python")
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import type { PluginInput } from "@opencode-ai/plugin";
+import { access } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+import type { Invocation } from "./invocations";
+
+// Decide whether a python executable belongs to a virtual environment,
+// rather than trusting any path that looks like one
+
+// `.venv`, `venv` and `env` directories of the project, e.g.
+// `./.venv/bin/python3`, whose pyvenv.cfg is looked up directly
+const PROJECT_VENV = /^(?:\.\/)*(\.venv|venv|env)\/bin\/python[\d.]*$/;
+
+// `<environment>/bin/python3.12`
+const VENV_PYTHON = /^(.+)\/bin\/python[\d.]*$/;
+
+export class PythonEnvironments {
+  // Environment directories known to have a pyvenv.cfg. Misses are not
+  // cached, since an environment may be created during the session.
+  private readonly found = new Set<string>();
+
+  constructor(
+    private readonly $?: PluginInput["$"],
+    private readonly root: string = process.cwd()
+  ) {}
+
+  async isVirtualEnvPython(invocation: Invocation): Promise<boolean> {
+    const [program] = invocation.words;
+    const [first, ...rest] = program.parts;
+
+    // `$VIRTUAL_ENV/bin/python`, unless the command sets VIRTUAL_ENV itself
+    if (first?.type === "parameter" && first.name === "VIRTUAL_ENV") {
+      const assigned: boolean = invocation.command.assignments.some(
+        ({ name }) => name === "VIRTUAL_ENV"
+      );
+      const path: string = rest
+        .map((part) => (part.type === "literal" ? part.value : ""))
+        .join("");
+      return (
+        !assigned &&
+        rest.every((part) => part.type === "literal") &&
+        /^\/bin\/python[\d.]*$/.test(path)
+      );
+    }
+    if (program.parts.some((part) => part.type !== "literal")) return false;
+
+    const path: string = invocation.name.replace(/\\/g, "/");
+    const project: RegExpExecArray | null = PROJECT_VENV.exec(path);
+    if (project && (await this.hasProjectConfig(project[1]))) return true;
+    const environment: RegExpExecArray | null = VENV_PYTHON.exec(path);
+    if (!environment) return false;
+    const directory: string = environment[1].startsWith("~/")
+      ? join(homedir(), environment[1].slice(2))
+      : resolve(this.root, environment[1]);
+    return this.hasConfig(directory);
+  }
+
+  // The conventional environments of the project are checked without a shell
+  private async hasProjectConfig(name: string): Promise<boolean> {
+    const directory: string = resolve(this.root, name);
+    if (this.found.has(directory)) return true;
+    try {
+      await access(join(directory, "pyvenv.cfg"));
+    } catch {
+      return false;
+    }
+    this.found.add(directory);
+    return true;
+  }
+
+  // Every virtual environment, whatever its location, has a pyvenv.cfg
+  private async hasConfig(directory: string): Promise<boolean> {
+    if (this.found.has(directory)) return true;
+    if (typeof this.$ !== "function") return false;
+    try {
+      const file: string = join(directory, "pyvenv.cfg");
+      const result = await this.$`test -f ${file}`.nothrow().quiet();
+      if (result.exitCode !== 0) return false;
+    } catch {
+      return false;
+    }
+    this.found.add(directory);
+    return true;
+  }
+}
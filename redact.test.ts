@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { redactSecrets, secretFormatOf } from "./redact";
+
+describe("Redact", () => {
+  it("should recognise the formats it can redact", () => {
+    expect(secretFormatOf("app/.env.local")).toBe("env");
+    expect(secretFormatOf("prod.env")).toBe("env");
+    expect(secretFormatOf("/home/me/.npmrc")).toBe("env");
+    expect(secretFormatOf(".netrc")).toBe("netrc");
+    expect(secretFormatOf("credentials.json")).toBe("json");
+    expect(secretFormatOf("secrets.yml")).toBe("yaml");
+    expect(secretFormatOf(".ssh/id_rsa")).toBeUndefined();
+    expect(secretFormatOf("server.pem")).toBeUndefined();
+  });
+
+  it("should keep env keys and comments", () => {
+    const text = [
+      "# database",
+      'export DB_URL="postgres://u:p@h/db"  # prod',
+      "API_KEY=abc123",
+      "EMPTY=",
+      "KEY='-----BEGIN",
+      "abc",
+      "-----END'",
+      "NEXT=x",
+    ].join("\n");
+    expect(redactSecrets(text, "env")).toBe(
+      [
+        "# database",
+        "export DB_URL=<redacted:len=19>  # prod",
+        "API_KEY=<redacted:len=6>",
+        "EMPTY=",
+        "KEY=<redacted:len=10>",
+        "<redacted:len=3>",
+        "<redacted:len=9>",
+        "NEXT=<redacted:len=1>",
+      ].join("\n")
+    );
+  });
+
+  it("should only redact the numbered lines of read output", () => {
+    const output = [
+      "<file>",
+      "00001| //registry.npmjs.org/:_authToken=npm_abcdef",
+      "00002| always-auth=true",
+      "",
+      "(End of file - total 2 lines)",
+      "</file>",
+    ].join("\n");
+    expect(redactSecrets(output, "env")).toBe(
+      [
+        "<file>",
+        "00001| //registry.npmjs.org/:_authToken=<redacted:len=10>",
+        "00002| always-auth=<redacted:len=4>",
+        "",
+        "(End of file - total 2 lines)",
+        "</file>",
+      ].join("\n")
+    );
+  });
+
+  it("should redact netrc logins and passwords", () => {
+    expect(
+      redactSecrets("machine github.com login me password s3cret", "netrc")
+    ).toBe(
+      "machine github.com login <redacted:len=2> password <redacted:len=6>"
+    );
+  });
+
+  it("should keep JSON keys, booleans and nulls", () => {
+    expect(
+      redactSecrets('{ "token": "abc", "port": 5432, "on": true, "ids": ["a"] }', "json")
+    ).toBe(
+      '{ "token": "<redacted:len=3>", "port": "<redacted:len=4>", "on": true, "ids": ["<redacted:len=1>"] }'
+    );
+  });
+
+  it("should keep YAML keys and structure", () => {
+    const text = [
+      "default: &default",
+      '  password: "hunter2" # old',
+      "  url: http://host:80/a",
+      "  keys:",
+      "    - k1",
+      "    - name: k2",
+      "  cert: |",
+      "    -----BEGIN",
+      "  ref: *default",
+    ].join("\n");
+    expect(redactSecrets(text, "yaml")).toBe(
+      [
+        "default: &default",
+        "  password: <redacted:len=7> # old",
+        "  url: <redacted:len=16>",
+        "  keys:",
+        "    - <redacted:len=2>",
+        "    - name: <redacted:len=2>",
+        "  cert: |",
+        "    <redacted:len=10>",
+        "  ref: *default",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { basename } from "./invocations";
+
+// Redact the values in secret files read in redact mode, keeping their keys
+// and structure so that configuration can be wired up without the secrets
+
+// `env` covers `.env` files and the `key=value` lines of `.npmrc`
+export type SecretFormat = "env" | "netrc" | "json" | "yaml";
+
+// The read tool prefixes each line of the file with its number
+const LINE_NUMBER = /^(\d+\| )(.*)$/;
+
+// Tokens of a .netrc file followed by a value to hide
+const NETRC_SECRETS: readonly string[] = ["login", "password", "account"];
+
+export function secretFormatOf(filePath: string): SecretFormat | undefined {
+  const name: string = basename(filePath);
+  if (/^\.env(?:\.|$)|\.env$/.test(name) || name === ".npmrc") return "env";
+  if (name === ".netrc" || name === "_netrc") return "netrc";
+  if (/\.json$/i.test(name)) return "json";
+  if (/\.ya?ml$/i.test(name)) return "yaml";
+  return undefined;
+}
+
+export function redactedValue(value: string): string {
+  return `<redacted:len=${value.length}>`;
+}
+
+function unquote(value: string): string {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+// A line redactor is given each line in turn, so that it can track values
+// that span lines
+type LineRedactor = (line: string) => string;
+
+// `KEY=value`, `export KEY="value"` and `//registry/:_authToken=value`. A
+// quoted value may continue on the following lines.
+function envRedactor(): LineRedactor {
+  let quote: string | undefined;
+  return (line) => {
+    if (quote) {
+      if (line.includes(quote)) quote = undefined;
+      return redactedValue(line);
+    }
+    const found: RegExpExecArray | null =
+      /^(\s*[^\s#;=[][^=]*?=\s*)(.*)$/.exec(line);
+    if (!found || !found[2].trim()) return line;
+    const [, key, value] = found;
+
+    const quoted: RegExpExecArray | null =
+      /^(["'])((?:\\.|(?!\1)[^\\])*)\1(.*)$/.exec(value);
+    if (quoted) return `${key}${redactedValue(quoted[2])}${quoted[3]}`;
+    if (/^["']/.test(value)) {
+      quote = value[0];
+      return `${key}${redactedValue(value.slice(1))}`;
+    }
+    const [, text, comment = ""] = /^(.*?)(\s+#.*)?$/.exec(value)!;
+    return `${key}${redactedValue(text)}${comment}`;
+  };
+}
+
+function netrcRedactor(): LineRedactor {
+  const tokens: string = NETRC_SECRETS.join("|");
+  return (line) =>
+    line.replace(
+      new RegExp(`(\\b(?:${tokens})\\s+)(\\S+)`, "g"),
+      (_, token: string, value: string) => `${token}${redactedValue(value)}`
+    );
+}
+
+// String values are redacted and keys kept; numbers are redacted too, while
+// true, false and null are kept
+function jsonRedactor(): LineRedactor {
+  return (line) =>
+    line.replace(
+      /"((?:[^"\\]|\\.)*)"(\s*:)?|-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/g,
+      (token: string, text: string | undefined, colon: string | undefined) => {
+        if (colon) return token;
+        return `"${redactedValue(text ?? token)}"`;
+      }
+    );
+}
+
+// Scalars after `key:` or `-` are redacted, and the lines of block scalars
+// such as `key: |` are redacted whole
+function yamlRedactor(): LineRedactor {
+  let block: number | undefined;
+  return (line) => {
+    const indent: number = line.length - line.trimStart().length;
+    if (block !== undefined) {
+      if (!line.trim()) return line;
+      if (indent > block) {
+        return line.slice(0, indent) + redactedValue(line.trim());
+      }
+      block = undefined;
+    }
+    if (!line.trim() || /^\s*(?:#|---|\.\.\.)/.test(line)) return line;
+
+    const [, items, rest] = /^(\s*(?:-(?: +|$))*)(.*)$/.exec(line)!;
+    const pair: RegExpExecArray | null =
+      /^((?:"[^"]*"|'[^']*'|[^\s#"'][^#]*?)\s*:(?: +|$))(.*)$/.exec(rest);
+    const key: string = pair ? pair[1] : "";
+    const [, value, comment = ""] = /^(.*?)(\s+#.*)?$/.exec(
+      pair ? pair[2] : rest
+    )!;
+    if (!value || /^[&*][^\s]+$/.test(value)) return line;
+    if (/^[|>][-+]?\d*$/.test(value)) {
+      block = indent;
+      return line;
+    }
+    return `${items}${key}${redactedValue(unquote(value))}${comment}`;
+  };
+}
+
+const REDACTORS: Record<SecretFormat, () => LineRedactor> = {
+  env: envRedactor,
+  netrc: netrcRedactor,
+  json: jsonRedactor,
+  yaml: yamlRedactor,
+};
+
+// Redact the output of a read call. Only numbered lines are file content
+// when the output has line numbers; the text around them is kept.
+export function redactSecrets(output: string, format: SecretFormat): string {
+  const redact: LineRedactor = REDACTORS[format]();
+  const lines: string[] = output.split("\n");
+  const numbered: boolean = lines.some((line) => LINE_NUMBER.test(line));
+  return lines
+    .map((line) => {
+      if (!numbered) return redact(line);
+      const found: RegExpExecArray | null = LINE_NUMBER.exec(line);
+      return found ? found[1] + redact(found[2]) : line;
+    })
+    .join("\n");
+}
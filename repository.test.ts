@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { collectInvocations } from "./invocations";
+import { isGitPath, repositoryChangesOf } from "./repository";
+
+function changes(command: string): { description: string; tiers?: string[] }[] {
+  return collectInvocations(command)
+    .flatMap((invocation) => repositoryChangesOf(invocation))
+    .map(({ description, tiers }) => ({ description, tiers }));
+}
+
+describe("Repository", () => {
+  describe("isGitPath", () => {
+    it("should match the .git directory and paths inside it", () => {
+      expect(isGitPath(".git")).toBe(true);
+      expect(isGitPath(".git/HEAD")).toBe(true);
+      expect(isGitPath("/repo/sub/.git/hooks/pre-commit")).toBe(true);
+      expect(isGitPath(".gitignore")).toBe(false);
+      expect(isGitPath("docs/.github/workflows/ci.yml")).toBe(false);
+    });
+  });
+
+  describe("repositoryChangesOf", () => {
+    it("should report writes into .git that no tier allows", () => {
+      expect(changes("echo ref > .git/HEAD")).toEqual([
+        { description: "Redirecting to `.git/HEAD`", tiers: undefined },
+      ]);
+      expect(changes("cat hook >> ./.git/hooks/pre-commit")).toHaveLength(1);
+      expect(changes("rm -rf .git")).toEqual([
+        { description: "`rm` on `.git`", tiers: undefined },
+      ]);
+      expect(changes("sed -i s/a/b/ .git/config")).toHaveLength(1);
+      expect(changes("cp hook .git/hooks/pre-push")).toHaveLength(1);
+      expect(changes("dd if=x of=.git/index")).toHaveLength(1);
+      expect(changes("echo x | tee .git/info/exclude")).toHaveLength(1);
+    });
+
+    it("should allow reading from .git", () => {
+      expect(changes("cat .git/HEAD")).toEqual([]);
+      expect(changes("sed -n 1p .git/config")).toEqual([]);
+      expect(changes("cp .git/config backup")).toEqual([]);
+      expect(changes("ls .git 2>&1 >&2")).toEqual([]);
+      expect(changes("wc -l < .git/packed-refs")).toEqual([]);
+    });
+
+    it("should classify other git clients and gh into git tiers", () => {
+      expect(changes("lazygit")).toEqual([
+        {
+          description: "The `lazygit` git client",
+          tiers: ["local-write", "history-rewrite", "remote-write"],
+        },
+      ]);
+      expect(changes("hub push origin main")[0].tiers).toEqual(["remote-write"]);
+      expect(changes("hub status")[0].tiers).toEqual(["read-only"]);
+      expect(changes("hub pull-request")[0].tiers).toEqual(["remote-write"]);
+      expect(changes("gh repo sync")[0].tiers).toEqual([
+        "local-write",
+        "remote-write",
+      ]);
+      expect(changes("gh pr merge 12 --squash")[0].description).toBe(
+        "`gh pr merge`"
+      );
+      expect(changes("gh pr view 12")).toEqual([]);
+      expect(changes("gh issue list")).toEqual([]);
+    });
+
+    it("should treat gh api as a write only when it sends data", () => {
+      expect(changes("gh api repos/o/r/pulls")).toEqual([]);
+      expect(changes("gh api -X GET search/issues -f q=x")).toEqual([]);
+      expect(changes("gh api repos/o/r/pulls -f title=x")).toHaveLength(1);
+      expect(changes("gh api --method=DELETE repos/o/r/git/refs/heads/x"))
+        .toHaveLength(1);
+    });
+
+    it("should detect git libraries used from inline interpreter code", () => {
+      expect(
+        changes(`python3 -c "import pygit2; pygit2.Repository('.')"`)
+      ).toHaveLength(1);
+      expect(changes(`python -c "from git import Repo"`)).toHaveLength(1);
+      expect(
+        changes(`node -e "require('simple-git')().push()"`)
+      ).toHaveLength(1);
+      expect(changes(`python3 -c "import json"`)).toEqual([]);
+      expect(changes(`python3 script.py -c "import pygit2"`)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { interpreterCode } from "./invocations";
+import type { Invocation } from "./invocations";
+import { GIT_TIERS, gitTiersOf, parseGitCommand } from "./git";
+import type { GitTier } from "./git";
+import type { Span } from "./shell-parser";
+
+// Ways to change a repository without going through the git CLI, so that
+// the git tiers cannot be bypassed
+
+export interface RepositoryChange {
+  description: string;
+  // The tiers the change needs, or undefined when it is never allowed
+  tiers?: GitTier[];
+  span: Span;
+}
+
+// Tools that can make any change need every tier but read-only
+const WRITE_TIERS: GitTier[] = GIT_TIERS.filter(
+  (tier) => tier !== "read-only"
+);
+
+// Interactive clients that can perform any git operation
+const GIT_CLIENTS: readonly string[] = [
+  "lazygit",
+  "tig",
+  "gitui",
+  "git-cola",
+  "gitk",
+  "git-gui",
+];
+
+// `gh` commands that change a repository, keyed by `<command> <subcommand>`
+const GH_COMMANDS: Record<string, GitTier[]> = {
+  "repo sync": ["local-write", "remote-write"],
+  "repo clone": ["remote-write"],
+  "repo fork": ["remote-write"],
+  "repo delete": ["remote-write", "history-rewrite"],
+  "repo rename": ["remote-write"],
+  "pr merge": ["local-write", "remote-write"],
+  "pr checkout": ["local-write"],
+  "pr create": ["remote-write"],
+  "release create": ["remote-write"],
+  "release delete": ["remote-write", "history-rewrite"],
+};
+
+// `hub` commands beyond the git subcommands it wraps
+const HUB_COMMANDS: Record<string, GitTier[]> = {
+  browse: ["read-only"],
+  "ci-status": ["read-only"],
+  compare: ["read-only"],
+  issue: ["read-only"],
+  create: ["remote-write"],
+  fork: ["remote-write"],
+  "pull-request": ["remote-write"],
+  release: ["remote-write"],
+  sync: ["local-write"],
+};
+
+// Imports of libraries that drive git from Python or JavaScript
+const GIT_LIBRARY_PATTERNS: readonly RegExp[] = [
+  /\b(?:import|from)\s+(?:pygit2|git|dulwich)\b/,
+  /["'](?:isomorphic-git|nodegit|simple-git)["']/,
+];
+
+// Redirections that create or modify their target
+const WRITE_REDIRECT = /^(?:>|>>|>\||&>|&>>|<>|>&)$/;
+
+// File commands that modify every path they are given, or only the last
+const MODIFY_ALL: readonly string[] = [
+  "chmod",
+  "chown",
+  "mkdir",
+  "mv",
+  "rm",
+  "rmdir",
+  "sed",
+  "tee",
+  "touch",
+  "truncate",
+  "unlink",
+];
+const MODIFY_LAST: readonly string[] = ["cp", "install", "ln", "rsync"];
+
+// Whether the path points into a `.git` directory, or is the `.git` entry
+export function isGitPath(path: string): boolean {
+  return path.split(/[/\\]/).includes(".git");
+}
+
+function hubTiersOf(args: string[]): GitTier[] {
+  const command: string | undefined = args[0];
+  if (command !== undefined && Object.hasOwn(HUB_COMMANDS, command)) {
+    return HUB_COMMANDS[command];
+  }
+  // Anything hub cannot be shown to treat like git may change anything
+  return gitTiersOf(parseGitCommand(args)) ?? WRITE_TIERS;
+}
+
+// The tiers a `gh` command needs, or undefined for commands that leave
+// repositories alone (issues, runs, auth, ...)
+function ghTiersOf(args: string[]): GitTier[] | undefined {
+  const key = `${args[0]} ${args[1]}`;
+  if (Object.hasOwn(GH_COMMANDS, key)) return GH_COMMANDS[key];
+
+  // `gh api` sends GET unless given another method, or fields to send
+  if (args[0] === "api") {
+    let method: string | undefined;
+    for (let i = 1; i < args.length; i++) {
+      if (args[i] === "-X" || args[i] === "--method") {
+        method = args[++i];
+      } else if (/^(?:-X|--method=)./.test(args[i])) {
+        method = args[i].replace(/^-X|^--method=/, "");
+      }
+    }
+    const sendsFields: boolean = args.some((arg) =>
+      ["-f", "-F", "--field", "--raw-field", "--input"].includes(arg)
+    );
+    const writes: boolean =
+      method !== undefined ? method.toUpperCase() !== "GET" : sendsFields;
+    if (writes) return ["remote-write"];
+  }
+  return undefined;
+}
+
+// Every repository change the invocation would make. `pathsOf` gives the
+// forms a path is checked in, such as the file a symlink points to.
+export function repositoryChangesOf(
+  invocation: Invocation,
+  pathsOf: (path: string) => string[] = (path) => [path]
+): RepositoryChange[] {
+  const { program, args, spans, span, redirects } = invocation;
+  const changes: RepositoryChange[] = [];
+
+  for (const redirect of redirects) {
+    if (!WRITE_REDIRECT.test(redirect.operator)) continue;
+    // `>&2` duplicates a descriptor, `>& file` writes to the file
+    if (redirect.operator === ">&" && /^(?:\d+|-)$/.test(redirect.target)) {
+      continue;
+    }
+    if (pathsOf(redirect.target).some(isGitPath)) {
+      changes.push({
+        description: `Redirecting to \`${redirect.target}\``,
+        span: redirect.span,
+      });
+    }
+  }
+
+  // Indexes of the arguments naming files the command modifies
+  const operands: number[] = args
+    .map((_, index) => index)
+    .filter((index) => !args[index].startsWith("-"));
+  let modified: number[] = [];
+  if (MODIFY_ALL.includes(program)) {
+    // `sed` only modifies files in place
+    const inPlace: boolean = args.some((arg) =>
+      /^(?:-[a-zA-Z]*i|--in-place)/.test(arg)
+    );
+    if (program !== "sed" || inPlace) modified = operands;
+  } else if (MODIFY_LAST.includes(program)) {
+    modified = operands.slice(-1);
+  } else if (program === "dd") {
+    modified = operands.filter((index) => args[index].startsWith("of="));
+  }
+  for (const index of modified) {
+    const path: string = program === "dd" ? args[index].slice(3) : args[index];
+    if (pathsOf(path).some(isGitPath)) {
+      changes.push({
+        description: `\`${program}\` on \`${path}\``,
+        span: spans[index + 1],
+      });
+    }
+  }
+
+  if (GIT_CLIENTS.includes(program)) {
+    changes.push({
+      description: `The \`${program}\` git client`,
+      tiers: WRITE_TIERS,
+      span,
+    });
+  }
+  if (program === "hub") {
+    changes.push({
+      description: `\`${["hub", ...args.slice(0, 1)].join(" ")}\``,
+      tiers: hubTiersOf(args),
+      span,
+    });
+  }
+  if (program === "gh") {
+    const tiers: GitTier[] | undefined = ghTiersOf(args);
+    if (tiers) {
+      changes.push({
+        description: `\`gh ${args.slice(0, 2).join(" ")}\``,
+        tiers,
+        span,
+      });
+    }
+  }
+
+  const code: string | undefined = interpreterCode(program, args);
+  if (
+    code !== undefined &&
+    GIT_LIBRARY_PATTERNS.some((pattern) => pattern.test(code))
+  ) {
+    changes.push({
+      description: `Using a git library from \`${program}\``,
+      tiers: WRITE_TIERS,
+      span,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import {
+  createBuiltinRules,
+  createPolicyRule,
+  createRuleContext,
+  RuleRegistry,
+  severityOf,
+} from "./rules";
+import type { Rule } from "./rules";
+import type { Policy } from "./policy";
+
+const policy: Policy = {
+  blockedCommands: { npm: "`npm` is blocked", git: "`git` is blocked" },
+  readOnlyFiles: { "yarn.lock": "`yarn.lock` is read-only" },
+  secretFiles: [".env*"],
+  caseInsensitiveGlobs: false,
+  secretFileReads: "block",
+  redactOutput: true,
+  secretVariables: ["*TOKEN*", "!GIT_TOKEN_HELPER"],
+  allowedGitCommands: ["git status"],
+  gitTiers: ["read-only"],
+  rules: [],
+  mode: "enforce",
+  severities: {},
+  auditLog: null,
+  rewrite: false,
+  contentRules: {},
+  flakeSchemes: { local: "deny", path: "allow" },
+  sanctionedHosts: { pip: ["uv"] },
+  wrappers: {},
+};
+
+function createRule(id: string, tools: string[]): Rule {
+  return {
+    id,
+    tools,
+    severity: "block",
+    message: `${id} matched`,
+    match: () => ({}),
+  };
+}
+
+describe("Rules", () => {
+  describe("RuleRegistry", () => {
+    it("should return the rules for a tool in registration order", () => {
+      const registry = new RuleRegistry().register(
+        createRule("a", ["bash"]),
+        createRule("b", ["read"]),
+        createRule("c", ["bash", "read"])
+      );
+      expect(registry.forTool("bash").map((rule) => rule.id)).toEqual(["a", "c"]);
+      expect(registry.forTool("write")).toEqual([]);
+    });
+
+    it("should reject duplicate rule ids", () => {
+      const registry = new RuleRegistry().register(createRule("a", ["bash"]));
+      expect(() => registry.register(createRule("a", ["read"]))).toThrow(
+        'A rule with id "a" is already registered'
+      );
+    });
+
+    it("should unregister rules by id", () => {
+      const registry = new RuleRegistry().register(createRule("a", ["bash"]));
+      expect(registry.unregister("a")).toBe(true);
+      expect(registry.unregister("a")).toBe(false);
+      expect(registry.get("a")).toBeUndefined();
+    });
+  });
+
+  describe("createBuiltinRules", () => {
+    it("should create one rule per blocked command plus the built-in checks", () => {
+      expect(createBuiltinRules(policy).map((rule) => rule.id)).toEqual([
+        "npm",
+        "git",
+        "repo-integrity",
+        "nesting-depth",
+        "undecidable",
+        "lockfile",
+        "secret-file",
+        "env-exfiltration",
+        "secret-content",
+      ]);
+    });
+
+    it("should omit the git and nix rules when their entries are removed", () => {
+      const ids = createBuiltinRules({ ...policy, blockedCommands: {} }).map(
+        (rule) => rule.id
+      );
+      expect(ids).toEqual([
+        "nesting-depth",
+        "undecidable",
+        "lockfile",
+        "secret-file",
+        "env-exfiltration",
+        "secret-content",
+      ]);
+    });
+
+    it("should report the lock file message for the matched file", () => {
+      const lockfile = createBuiltinRules(policy).find(
+        (rule) => rule.id === "lockfile"
+      ) as Rule;
+      const context = createRuleContext(
+        "write",
+        { filePath: "app/yarn.lock" },
+        policy
+      );
+      expect(lockfile.match(context)).toEqual({
+        message: "`yarn.lock` is read-only",
+        span: { start: 0, end: 13 },
+        key: "yarn.lock",
+      });
+    });
+  });
+
+  describe("severityOf", () => {
+    const rule = createRule("secret-file", ["read"]);
+    const severities: Policy = {
+      ...policy,
+      severities: { "secret-file": "warn", "secret-file:.env*": "off" },
+    };
+
+    it("should prefer entry, then rule, then default severities", () => {
+      expect(severityOf(rule, policy)).toBe("block");
+      expect(severityOf(rule, severities)).toBe("warn");
+      expect(severityOf(rule, severities, "*auth*")).toBe("warn");
+      expect(severityOf(rule, severities, ".env*")).toBe("off");
+    });
+
+    it("should report the strictest matching secret file pattern", () => {
+      const secretFile = createBuiltinRules(policy).find(
+        (rule) => rule.id === "secret-file"
+      ) as Rule;
+      const downgraded: Policy = {
+        ...policy,
+        secretFiles: ["*auth*", ".env*"],
+        severities: { "secret-file:*auth*": "warn" },
+      };
+      const context = createRuleContext(
+        "bash",
+        { command: "cat auth.ts .env" },
+        downgraded
+      );
+      expect(secretFile.match(context)).toEqual({
+        span: { start: 12, end: 16 },
+        key: ".env*",
+      });
+    });
+  });
+
+  describe("createPolicyRule", () => {
+    it("should match programs in command position", () => {
+      const rule = createPolicyRule({
+        id: "no-curl",
+        command: ["curl", "wget"],
+        message: "no downloads",
+      });
+      expect(rule.tools).toEqual(["bash"]);
+      expect(
+        rule.match(createRuleContext("bash", { command: "ls && wget x" }, policy))
+      ).toEqual({ span: { start: 6, end: 10 } });
+      expect(
+        rule.match(createRuleContext("bash", { command: "echo curl" }, policy))
+      ).toBeUndefined();
+    });
+
+    it("should match file paths by glob", () => {
+      const rule = createPolicyRule({
+        id: "migrations",
+        path: "db/migrations/**",
+        message: "migrations are immutable",
+      });
+      expect(rule.tools).toEqual(["read", "edit", "write"]);
+      expect(
+        rule.match(
+          createRuleContext("edit", { filePath: "db/migrations/001.sql" }, policy)
+        )
+      ).toEqual({ span: { start: 0, end: 21 } });
+      expect(
+        rule.match(createRuleContext("edit", { filePath: "db/seed.sql" }, policy))
+      ).toBeUndefined();
+    });
+
+    it("should require every matcher to match", () => {
+      const rule = createPolicyRule({
+        id: "no-force-push",
+        command: "git",
+        pattern: "--force\\b",
+        message: "no force pushes",
+      });
+      expect(
+        rule.match(
+          createRuleContext("bash", { command: "git push --force" }, policy)
+        )
+      ).toEqual({ span: { start: 0, end: 3 } });
+      expect(
+        rule.match(createRuleContext("bash", { command: "git push" }, policy))
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,965 @@
+import { analyzeCommand, basename, MAX_NESTING } from "./invocations";
+import type { Invocation, NestedText, Undecidable } from "./invocations";
+import { addedLines } from "./diff";
+import { environmentLeaksOf } from "./environment";
+import { gitTiersOf, parseGitCommand, unsafeGitVariableOf } from "./git";
+import { matchesGlob } from "./glob";
+import type { GlobOptions } from "./glob";
+import { flakeInputsOf } from "./flake-inputs";
+import { flakeRefsOf, nixPurityIssuesOf, parseFlakeRef } from "./nix";
+import { canonicalPathsOf } from "./paths";
+import type { PathEnvironment } from "./paths";
+import { PythonEnvironments } from "./python-env";
+import { secretFormatOf } from "./redact";
+import type { SecretFormat } from "./redact";
+import { isGitPath, repositoryChangesOf } from "./repository";
+import type { RepositoryChange } from "./repository";
+import type { AddedLine } from "./diff";
+import type {
+  ContentRuleDefinition,
+  Policy,
+  RuleDefinition,
+  Severity,
+} from "./policy";
+import { MAX_PARSE_DEPTH } from "./shell-parser";
+import type { Span } from "./shell-parser";
+import { scanSecrets } from "./secrets";
+import { translateCommand } from "./translate";
+
+export type { Severity } from "./policy";
+
+// Everything a rule may inspect about a single tool call
+export interface RuleContext {
+  tool: string;
+  args: Record<string, unknown>;
+  policy: Policy;
+  command?: string;
+  filePath?: string;
+  // The text written by edit (newString) and write (content) calls, and the
+  // text an edit replaces (oldString)
+  content?: string;
+  previousContent?: string;
+  invocations: Invocation[];
+  // Script text nested too deeply to be parsed
+  unchecked: NestedText[];
+  // Programs and piped scripts that could not be determined
+  undecidable: Undecidable[];
+  // Canonical forms of the paths in the call, by the path as written. Filled
+  // in by resolvePaths; file rules match the path as written too.
+  paths: Map<string, string[]>;
+}
+
+// A rule match may refine the rule's default message and suggestion. The
+// span locates the offending text within the command or file path, and the
+// suggestion is a drop-in replacement for that span. The key names the table
+// entry that matched, so the policy can set a severity for that entry alone.
+// The nesting lists the commands the match was found in, such as `ssh host`
+// and `bash -c`. A match of a rewritable rule may set `rewritable: false`
+// when its suggestion is only a hint, not an exact replacement.
+export interface RuleMatch {
+  message?: string;
+  span?: Span;
+  suggestion?: string;
+  key?: string;
+  nesting?: string[];
+  rewritable?: boolean;
+}
+
+export interface Rule {
+  id: string;
+  tools: readonly string[];
+  severity: Severity;
+  message: string;
+  suggestion?: string;
+  // Whether the suggestion is a safe, mechanical fix that rewrite mode may
+  // apply instead of blocking
+  rewritable?: boolean;
+  match(
+    context: RuleContext
+  ): RuleMatch | undefined | Promise<RuleMatch | undefined>;
+}
+
+export interface BlockedErrorDetails {
+  ruleId: string;
+  tool: string;
+  argument: string;
+  message: string;
+  span?: Span;
+  suggestion?: string;
+  nesting?: string[];
+}
+
+// Thrown from the hook when a rule blocks a tool call, so that callers can
+// react to the rule, span and suggestion instead of parsing the message.
+export class BlockedError extends Error {
+  readonly ruleId: string;
+  readonly tool: string;
+  readonly argument: string;
+  readonly match?: Span & { text: string };
+  readonly suggestion?: string;
+  readonly nesting: string[];
+
+  constructor(details: BlockedErrorDetails) {
+    const nesting: string[] = details.nesting ?? [];
+    super(
+      nesting.length > 0
+        ? `${details.message}\nFound inside: ${nesting.map((label) => `\`${label}\``).join(" → ")}`
+        : details.message
+    );
+    this.name = "BlockedError";
+    this.nesting = nesting;
+    this.ruleId = details.ruleId;
+    this.tool = details.tool;
+    this.argument = details.argument;
+    this.suggestion = details.suggestion;
+    if (details.span) {
+      const { start, end } = details.span;
+      this.match = { start, end, text: details.argument.slice(start, end) };
+    }
+  }
+
+  // The argument with the matched span replaced by the suggestion
+  get suggestedArgument(): string | undefined {
+    if (!this.match || this.suggestion === undefined) return undefined;
+    return (
+      this.argument.slice(0, this.match.start) +
+      this.suggestion +
+      this.argument.slice(this.match.end)
+    );
+  }
+}
+
+export class RuleRegistry {
+  private readonly rules: Rule[] = [];
+
+  register(...rules: Rule[]): this {
+    for (const rule of rules) {
+      if (this.get(rule.id)) {
+        throw new Error(`A rule with id "${rule.id}" is already registered`);
+      }
+      this.rules.push(rule);
+    }
+    return this;
+  }
+
+  unregister(id: string): boolean {
+    const index = this.rules.findIndex((rule) => rule.id === id);
+    if (index === -1) return false;
+    this.rules.splice(index, 1);
+    return true;
+  }
+
+  get(id: string): Rule | undefined {
+    return this.rules.find((rule) => rule.id === id);
+  }
+
+  forTool(tool: string): Rule[] {
+    return this.rules.filter((rule) => rule.tools.includes(tool));
+  }
+
+  all(): readonly Rule[] {
+    return this.rules;
+  }
+}
+
+// The policy's severity for a rule, or for one of its table entries
+export function severityOf(rule: Rule, policy: Policy, key?: string): Severity {
+  return (
+    (key !== undefined ? policy.severities[`${rule.id}:${key}`] : undefined) ??
+    policy.severities[rule.id] ??
+    rule.severity
+  );
+}
+
+const SEVERITY_ORDER: readonly Severity[] = ["block", "warn", "off"];
+
+function strictestKey(rule: Rule, policy: Policy, keys: string[]): string {
+  const rank = (key: string): number =>
+    SEVERITY_ORDER.indexOf(severityOf(rule, policy, key));
+  return [...keys].sort((a, b) => rank(a) - rank(b))[0];
+}
+
+export function createRuleContext(
+  tool: string,
+  args: Record<string, unknown>,
+  policy: Policy
+): RuleContext {
+  const context: RuleContext = {
+    tool,
+    args: args ?? {},
+    policy,
+    invocations: [],
+    unchecked: [],
+    undecidable: [],
+    paths: new Map(),
+  };
+
+  if (tool === "bash" && typeof args?.command === "string") {
+    context.command = args.command;
+    const { invocations, unchecked, undecidable } = analyzeCommand(
+      args.command,
+      policy.wrappers
+    );
+    context.invocations = invocations;
+    context.unchecked = unchecked;
+    context.undecidable = undecidable;
+  }
+
+  const filePath = args?.filePath || args?.file_path;
+  if (tool !== "bash" && typeof filePath === "string" && filePath) {
+    context.filePath = filePath;
+  }
+
+  const content = tool === "edit" ? args?.newString ?? args?.new_string : args?.content;
+  if ((tool === "edit" || tool === "write") && typeof content === "string") {
+    context.content = content;
+  }
+  const previousContent = args?.oldString ?? args?.old_string;
+  if (tool === "edit" && typeof previousContent === "string") {
+    context.previousContent = previousContent;
+  }
+
+  return context;
+}
+
+// Longer arguments are taken to be text rather than paths
+const MAX_PATH_LENGTH = 4096;
+
+// Resolve the file path of the call, and the arguments and redirect targets
+// of its commands, to the files they name
+export async function resolvePaths(
+  context: RuleContext,
+  environment: PathEnvironment
+): Promise<void> {
+  const written: string[] = context.filePath ? [context.filePath] : [];
+  for (const { args, redirects } of context.invocations) {
+    written.push(
+      ...args.filter((arg) => !arg.startsWith("-")),
+      ...redirects.map((redirect) => redirect.target)
+    );
+  }
+  for (const path of written) {
+    const text: boolean = path.length > MAX_PATH_LENGTH || path.includes("\n");
+    if (!path || text || context.paths.has(path)) continue;
+    context.paths.set(path, await canonicalPathsOf(path, environment));
+  }
+}
+
+// A path as written followed by its canonical forms
+function pathsOf({ paths }: RuleContext, path: string): string[] {
+  return [...new Set([path, ...(paths.get(path) ?? [])])];
+}
+
+// Policy globs match hidden files too, so that a file cannot slip past them
+// because its name starts with a dot
+function globOptionsOf(policy: Policy): GlobOptions {
+  return { dot: true, ignoreCase: policy.caseInsensitiveGlobs };
+}
+
+// Globs without `/` match the file name in any directory
+function matchesFileGlob(
+  pattern: string,
+  filePath: string,
+  options: GlobOptions
+): boolean {
+  return (
+    matchesGlob(pattern, filePath, options) ||
+    (!pattern.includes("/") &&
+      matchesGlob(pattern, basename(filePath), options))
+  );
+}
+
+// The globs that match a file. A `!glob` exempts the files it matches from
+// the globs before it, and only later globs can match them again.
+function matchingGlobs(
+  patterns: string[],
+  filePath: string,
+  options: GlobOptions
+): string[] {
+  let matched: string[] = [];
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      if (matchesFileGlob(pattern.slice(1), filePath, options)) matched = [];
+    } else if (matchesFileGlob(pattern, filePath, options)) {
+      matched.push(pattern);
+    }
+  }
+  return matched;
+}
+
+// Replacements for the blocked programs, suggested when the whole command
+// has no exact translation
+const COMMAND_ALTERNATIVES: Record<string, string> = {
+  node: "bun",
+  npm: "bun",
+  npx: "bunx",
+  pip: "uv pip",
+  python: "uv run python",
+  python2: "uv run python",
+  python3: "uv run python3",
+};
+
+// Whether a host such as `uv tool run` starts with one of the sanctioned
+// hosts, word by word
+function isSanctioned(host: string, hosts: string[]): boolean {
+  return hosts.some((prefix) => host === prefix || host.startsWith(`${prefix} `));
+}
+
+// Allow python commands from virtual environments and sanctioned hosts
+function createBlockedCommandRule(
+  program: string,
+  message: string,
+  environments: PythonEnvironments
+): Rule {
+  return {
+    id: program,
+    tools: ["bash"],
+    severity: "block",
+    message,
+    rewritable: true,
+    match: async ({ invocations, policy }) => {
+      const hosts: string[] = policy.sanctionedHosts[program] ?? [];
+      let blocked: Invocation | undefined;
+      for (const invocation of invocations) {
+        if (invocation.program !== program) continue;
+        if (invocation.host && isSanctioned(invocation.host, hosts)) continue;
+        const virtualEnv: boolean =
+          program.startsWith("python") &&
+          (await environments.isVirtualEnvPython(invocation));
+        if (!virtualEnv) {
+          blocked = invocation;
+          break;
+        }
+      }
+      if (!blocked) return undefined;
+
+      const translation: string | undefined = translateCommand(
+        program,
+        blocked.words.slice(1)
+      );
+      if (translation === undefined) {
+        return {
+          span: blocked.spans[0],
+          suggestion: blocked.exact ? COMMAND_ALTERNATIVES[program] : undefined,
+          nesting: blocked.nesting,
+          // The alternative program takes other arguments
+          rewritable: false,
+        };
+      }
+      return {
+        message: `${message}\nRun instead: \`${translation}\``,
+        span: blocked.span,
+        suggestion: blocked.exact ? translation : undefined,
+        nesting: blocked.nesting,
+      };
+    },
+  };
+}
+
+function createGitRule(message: string): Rule {
+  const rule: Rule = {
+    id: "git",
+    tools: ["bash"],
+    severity: "block",
+    message,
+    match: ({ invocations, policy }) => {
+      const matches: (RuleMatch & { key: string })[] = [];
+      for (const { program, args, span, nesting, environment } of invocations) {
+        if (program !== "git") continue;
+
+        const git = parseGitCommand(args);
+        const gitCommand: string = ["git", git.subcommand ?? "", ...git.args]
+          .join(" ")
+          .trim();
+        const isAllowed: boolean = policy.allowedGitCommands.some(
+          (cmd) => gitCommand === cmd || gitCommand.startsWith(`${cmd} `)
+        );
+        if (isAllowed) continue;
+
+        const variable: string | undefined = unsafeGitVariableOf(environment);
+        if (variable) {
+          matches.push({
+            message: `${message} \`${variable}\` can make git run other programs, so this command could not be classified into a git tier.`,
+            span,
+            key: "unclassified",
+            nesting,
+          });
+          continue;
+        }
+        const tiers = gitTiersOf(git);
+        if (!tiers) {
+          matches.push({
+            message: `${message} \`git ${git.subcommand ?? ""}\` with these options could not be classified into a git tier.`,
+            span,
+            key: "unclassified",
+            nesting,
+          });
+          continue;
+        }
+        const missing = tiers.filter((tier) => !policy.gitTiers.includes(tier));
+        if (missing.length > 0) {
+          matches.push({
+            message: `${message} \`git ${git.subcommand}\` needs the ${missing.join(" and ")} tier; this project allows: ${policy.gitTiers.join(", ") || "none"}.`,
+            span,
+            key: strictestKey(rule, policy, missing),
+            nesting,
+          });
+        }
+      }
+      // The missing tier with the strictest severity decides, across every
+      // git command
+      if (matches.length === 0) return undefined;
+      const key: string = strictestKey(
+        rule,
+        policy,
+        matches.map((match) => match.key)
+      );
+      return matches.find((match) => match.key === key);
+    },
+  };
+  return rule;
+}
+
+// Repository changes made without the git CLI: other git clients, `gh`,
+// git libraries, and writes into `.git` that no tier allows
+function createRepositoryRule(): Rule {
+  const message =
+    "Changing the repository outside of the git CLI is blocked.";
+  const rule: Rule = {
+    id: "repo-integrity",
+    tools: ["bash", "edit", "write"],
+    severity: "block",
+    message,
+    match: (context) => {
+      const { tool, filePath, invocations, policy } = context;
+      if (tool !== "bash") {
+        if (!filePath || !pathsOf(context, filePath).some(isGitPath)) {
+          return undefined;
+        }
+        return {
+          message: `${message} \`${filePath}\` is inside the \`.git\` directory; use git commands instead of editing it.`,
+          key: "git-directory",
+        };
+      }
+
+      const matches: (RuleMatch & { key: string })[] = [];
+      for (const invocation of invocations) {
+        const changes: RepositoryChange[] = repositoryChangesOf(
+          invocation,
+          (path) => pathsOf(context, path)
+        );
+        for (const change of changes) {
+          if (!change.tiers) {
+            matches.push({
+              message: `${message} ${change.description} writes inside the \`.git\` directory; use git commands instead.`,
+              span: change.span,
+              key: "git-directory",
+              nesting: invocation.nesting,
+            });
+            continue;
+          }
+          const missing = change.tiers.filter(
+            (tier) => !policy.gitTiers.includes(tier)
+          );
+          if (missing.length > 0) {
+            matches.push({
+              message: `${message} ${change.description} needs the ${missing.join(" and ")} tier; this project allows: ${policy.gitTiers.join(", ") || "none"}.`,
+              span: change.span,
+              key: strictestKey(rule, policy, missing),
+              nesting: invocation.nesting,
+            });
+          }
+        }
+      }
+      // The change with the strictest severity decides
+      if (matches.length === 0) return undefined;
+      const key: string = strictestKey(
+        rule,
+        policy,
+        matches.map((match) => match.key)
+      );
+      return matches.find((match) => match.key === key);
+    },
+  };
+  return rule;
+}
+
+// Why the policy denies a flake reference's scheme
+function flakeSchemeProblem(ref: string, scheme: string, policy: Policy): string {
+  const allowed: string[] = Object.keys(policy.flakeSchemes).filter(
+    (name) => policy.flakeSchemes[name] === "allow"
+  );
+  const problem: string = Object.hasOwn(policy.flakeSchemes, scheme)
+    ? `\`${scheme}\` flake references are not allowed in this project: \`${ref}\`.`
+    : `\`${ref}\` does not use a known flake reference scheme.`;
+  return `${problem} Allowed schemes: ${allowed.join(", ") || "none"}.`;
+}
+
+function createNixRule(message: string): Rule {
+  const rule: Rule = {
+    id: "nix",
+    tools: ["bash"],
+    severity: "block",
+    message,
+    rewritable: true,
+    match: ({ invocations, policy }) => {
+      const matches: (RuleMatch & { key: string })[] = [];
+      for (const { program, args, spans, exact, nesting } of invocations) {
+        if (program !== "nix") continue;
+
+        for (const index of flakeRefsOf(args)) {
+          const { scheme } = parseFlakeRef(args[index]);
+          if (policy.flakeSchemes[scheme] === "allow") continue;
+
+          // Local paths keep the rule's own message and the `path:` fix
+          if (scheme === "local") {
+            matches.push({
+              span: spans[index + 1],
+              suggestion: exact ? `path:${args[index]}` : undefined,
+              key: scheme,
+              nesting,
+            });
+            continue;
+          }
+          matches.push({
+            message: flakeSchemeProblem(args[index], scheme, policy),
+            span: spans[index + 1],
+            key: scheme,
+            nesting,
+          });
+        }
+      }
+      // The scheme with the strictest severity decides, so that a warned
+      // reference cannot hide a blocked one
+      if (matches.length === 0) return undefined;
+      const key: string = strictestKey(
+        rule,
+        policy,
+        matches.map((match) => match.key)
+      );
+      return matches.find((match) => match.key === key);
+    },
+  };
+  return rule;
+}
+
+// The inputs of flake.nix, held to the same scheme policy as the nix CLI
+const flakeInputsRule: Rule = {
+  id: "flake-inputs",
+  tools: ["edit", "write"],
+  severity: "block",
+  message:
+    "Flake inputs must use references the nix rule allows, such as `path:` for local flakes.",
+  match: ({ tool, filePath, content, policy }) => {
+    if (!filePath || !content || basename(filePath) !== "flake.nix") {
+      return undefined;
+    }
+    for (const input of flakeInputsOf(content, tool === "edit")) {
+      const { scheme } = parseFlakeRef(input.url);
+      if (policy.flakeSchemes[scheme] === "allow") continue;
+
+      const label: string = input.name ? `Input \`${input.name}\`` : "An input";
+      const where: string = `${label} on line ${input.line}${tool === "edit" ? " of the new text" : ""}`;
+      return {
+        message:
+          scheme === "local"
+            ? `${where} uses the local path \`${input.url}\`, which nix fetches as a git checkout without untracked files. Use \`path:${input.url}\` instead.`
+            : `${where}: ${flakeSchemeProblem(input.url, scheme, policy)}`,
+        key: scheme,
+      };
+    }
+    return undefined;
+  },
+};
+
+// Impure and unpinned nix usage, each kind toggled through its severity
+// key, e.g. `nix-purity:profile`
+const nixPurityRule: Rule = {
+  id: "nix-purity",
+  tools: ["bash"],
+  severity: "block",
+  message: "Impure nix usage is blocked to keep builds reproducible.",
+  match: ({ invocations, policy }) => {
+    const matches: (RuleMatch & { key: string })[] = [];
+    for (const { program, args, spans, span, nesting } of invocations) {
+      for (const issue of nixPurityIssuesOf(program, args)) {
+        matches.push({
+          message: `Impure nix usage is blocked to keep builds reproducible: ${issue.description}`,
+          span: issue.index !== undefined ? spans[issue.index + 1] : span,
+          key: issue.kind,
+          nesting,
+        });
+      }
+    }
+    // The kind with the strictest severity decides
+    if (matches.length === 0) return undefined;
+    const key: string = strictestKey(
+      nixPurityRule,
+      policy,
+      matches.map((match) => match.key)
+    );
+    return matches.find((match) => match.key === key);
+  },
+};
+
+// Scripts nested beyond MAX_NESTING, and substitutions, subshells or groups
+// nested beyond MAX_PARSE_DEPTH, are not parsed, so they cannot be allowed
+const nestingDepthRule: Rule = {
+  id: "nesting-depth",
+  tools: ["bash"],
+  severity: "block",
+  message: `Commands nested more than ${MAX_NESTING} levels deep are blocked because they cannot be checked.`,
+  match: ({ unchecked }) => {
+    const [text] = unchecked;
+    if (!text) return undefined;
+    // Text the parser gave up on is nested in substitutions, not scripts
+    const message: string | undefined =
+      text.nesting.length <= MAX_NESTING
+        ? `Commands nested more than ${MAX_PARSE_DEPTH} substitutions, subshells or groups deep are blocked because they cannot be checked.`
+        : undefined;
+    return { message, span: text.span, nesting: text.nesting };
+  },
+};
+
+// Programs such as `$cmd` and scripts such as `curl ... | sh` are only
+// warned about unless the policy blocks them
+const undecidableRule: Rule = {
+  id: "undecidable",
+  tools: ["bash"],
+  severity: "warn",
+  message: "The command cannot be fully checked.",
+  match: ({ undecidable, policy }) => {
+    if (undecidable.length === 0) return undefined;
+    const key: string = strictestKey(
+      undecidableRule,
+      policy,
+      undecidable.map((entry) => entry.kind)
+    );
+    const entry = undecidable.find((entry) => entry.kind === key)!;
+    return {
+      message: `The command cannot be fully checked: ${entry.description}.`,
+      span: entry.span,
+      key,
+      nesting: entry.nesting,
+    };
+  },
+};
+
+const lockfileRule: Rule = {
+  id: "lockfile",
+  tools: ["edit", "write"],
+  severity: "block",
+  message: "Editing auto-generated lock files is blocked.",
+  match: (context) => {
+    const { filePath, policy } = context;
+    if (!filePath) return undefined;
+    const fileName: string | undefined = pathsOf(context, filePath)
+      .map(basename)
+      .find((name) => Object.hasOwn(policy.readOnlyFiles, name));
+    if (!fileName) return undefined;
+    return {
+      message: policy.readOnlyFiles[fileName],
+      span: { start: 0, end: filePath.length },
+      key: fileName,
+    };
+  },
+};
+
+// Secret file matches are sorted by the severity of the pattern that matched,
+// strictest first, so that downgrading one glob cannot hide another.
+function secretMatchesOf(
+  candidates: { value: string; span: Span; nesting?: string[] }[],
+  context: RuleContext
+): RuleMatch[] {
+  const { policy } = context;
+  const matches: RuleMatch[] = [];
+  for (const { value, span, nesting } of candidates) {
+    const patterns: Set<string> = new Set(
+      pathsOf(context, value).flatMap((path) =>
+        matchingGlobs(policy.secretFiles, path, globOptionsOf(policy))
+      )
+    );
+    for (const pattern of patterns) {
+      matches.push({ span, key: pattern, nesting });
+    }
+  }
+  const rank = (match: RuleMatch): number =>
+    SEVERITY_ORDER.indexOf(severityOf(secretFileRule, policy, match.key));
+  return matches.sort((a, b) => rank(a) - rank(b));
+}
+
+// The format of a secret file whose read call is let through to have its
+// values redacted, when the policy redacts secret file reads
+export function redactedFormatOf(
+  context: RuleContext
+): SecretFormat | undefined {
+  const { tool, filePath, policy } = context;
+  if (tool !== "read" || !filePath) return undefined;
+  if (policy.secretFileReads !== "redact") return undefined;
+  const paths: string[] = pathsOf(context, filePath);
+  // The file read decides the format, however the path was spelled
+  const format: SecretFormat | undefined = paths
+    .map(secretFormatOf)
+    .findLast((found) => found !== undefined);
+  if (!format) return undefined;
+  const secret: boolean = paths.some(
+    (path) =>
+      matchingGlobs(policy.secretFiles, path, globOptionsOf(policy)).length > 0
+  );
+  return secret ? format : undefined;
+}
+
+const secretFileRule: Rule = {
+  id: "secret-file",
+  tools: ["read", "bash"],
+  severity: "block",
+  message:
+    "Reading secret files is blocked to prevent exposure of sensitive data including API keys, credentials, and configuration.",
+  match: (context) => {
+    const { filePath, invocations, policy } = context;
+    if (filePath) {
+      if (redactedFormatOf(context)) return undefined;
+      return secretMatchesOf(
+        [{ value: filePath, span: { start: 0, end: filePath.length } }],
+        context
+      )[0];
+    }
+
+    // Check for any secret file references in shell commands
+    const candidates: { value: string; span: Span; nesting?: string[] }[] = [];
+    for (const { args, spans, redirects, nesting } of invocations) {
+      candidates.push(
+        ...args.map((value, index) => ({
+          value,
+          span: spans[index + 1],
+          nesting,
+        })),
+        ...redirects
+          .filter((redirect) => !/&$/.test(redirect.operator))
+          .map((redirect) => ({
+            value: redirect.target,
+            span: redirect.span,
+            nesting,
+          }))
+      );
+    }
+    // Skip flags (arguments starting with -)
+    return secretMatchesOf(
+      candidates.filter(({ value }) => !value.startsWith("-")),
+      context
+    )[0];
+  },
+};
+
+// Variable names are matched case-insensitively, and `!` exempts names from
+// the globs before it
+function isSecretVariable(name: string, policy: Policy): boolean {
+  const options: GlobOptions = { dot: true, ignoreCase: true };
+  return matchingGlobs(policy.secretVariables, name, options).length > 0;
+}
+
+const environmentRule: Rule = {
+  id: "env-exfiltration",
+  tools: ["bash"],
+  severity: "block",
+  message:
+    "Printing environment variables is blocked to prevent exposure of the secrets they hold.",
+  match: ({ invocations, policy }) => {
+    const matches: (RuleMatch & { key: string })[] = [];
+    for (const invocation of invocations) {
+      const { program, args, words, spans, span, nesting } = invocation;
+      const leaks = environmentLeaksOf(
+        program,
+        args,
+        words,
+        invocation.redirects.map((redirect) => redirect.target),
+        (name) => isSecretVariable(name, policy)
+      );
+      for (const leak of leaks) {
+        matches.push({
+          message: `Printing environment variables is blocked to prevent exposure of the secrets they hold: ${leak.description}`,
+          span: leak.index !== undefined ? spans[leak.index + 1] : span,
+          key: leak.kind,
+          nesting,
+        });
+      }
+    }
+    // The kind with the strictest severity decides
+    if (matches.length === 0) return undefined;
+    const key: string = strictestKey(
+      environmentRule,
+      policy,
+      matches.map((match) => match.key)
+    );
+    return matches.find((match) => match.key === key);
+  },
+};
+
+const secretContentRule: Rule = {
+  id: "secret-content",
+  tools: ["edit", "write"],
+  severity: "block",
+  message:
+    "Writing secrets into files is blocked. Read credentials from environment variables or a secret manager instead of pasting them into source.",
+  match: ({ tool, content, previousContent }) => {
+    if (!content) return undefined;
+    // Only the lines an edit adds or changes are scanned. The others are
+    // blanked out, so that findings keep their line and column.
+    const added = new Set<number>(
+      addedLines(previousContent ?? "", content).map(({ line }) => line)
+    );
+    const text: string = content
+      .split("\n")
+      .map((line, index) =>
+        added.has(index + 1) ? line : " ".repeat(line.length)
+      )
+      .join("\n");
+    const [finding] = scanSecrets(text);
+    if (!finding) return undefined;
+    const where: string = tool === "edit" ? " of the new text" : "";
+    return {
+      message: `Writing secrets into files is blocked: ${finding.description} was found on line ${finding.line}${where}, column ${finding.column}. Read credentials from environment variables or a secret manager instead of pasting them into source.`,
+      key: finding.kind,
+    };
+  },
+};
+
+// Blank out string literals and comments, keeping line and column
+// positions. Block comments and template literals may span lines, so the
+// whole text is blanked at once.
+function codeOf(text: string): string {
+  return text.replace(
+    /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`|\/\*[\s\S]*?(?:\*\/|$)|\/\/[^\n]*/g,
+    (found) => found.replace(/[^\n]/g, " ")
+  );
+}
+
+// A lint rule for the lines an edit or write adds to files matching its globs
+export function createContentRule(
+  id: string,
+  definition: ContentRuleDefinition
+): Rule {
+  const pattern = new RegExp(definition.pattern);
+  return {
+    id,
+    tools: ["edit", "write"],
+    severity: "block",
+    message: definition.message,
+    match: (context) => {
+      const { tool, filePath, content, previousContent, policy } = context;
+      if (!filePath || !content) return undefined;
+      const matched: boolean = pathsOf(context, filePath).some(
+        (path) =>
+          matchingGlobs(definition.files, path, globOptionsOf(policy)).length >
+          0
+      );
+      if (!matched) return undefined;
+
+      const lines: string[] = (
+        definition.codeOnly ? codeOf(content) : content
+      ).split("\n");
+      const offending: AddedLine[] = addedLines(
+        previousContent ?? "",
+        content
+      ).filter(({ line }) => pattern.test(lines[line - 1]));
+      if (offending.length === 0) return undefined;
+
+      const numbers: string = offending.map(({ line }) => line).join(", ");
+      const where: string = tool === "edit" ? " of the new text" : "";
+      return {
+        message: `${definition.message} Introduced on line ${numbers}${where}: \`${offending[0].text.trim()}\``,
+      };
+    },
+  };
+}
+
+// The built-in rules, in evaluation order, for the given policy tables
+export function createBuiltinRules(
+  policy: Policy,
+  environments: PythonEnvironments = new PythonEnvironments()
+): Rule[] {
+  const rules: Rule[] = [];
+  for (const [program, message] of Object.entries(policy.blockedCommands)) {
+    if (program === "git" || program === "nix") continue;
+    rules.push(createBlockedCommandRule(program, message, environments));
+  }
+  if (policy.blockedCommands["git"]) {
+    rules.push(createGitRule(policy.blockedCommands["git"]));
+    rules.push(createRepositoryRule());
+  }
+  if (policy.blockedCommands["nix"]) {
+    rules.push(
+      createNixRule(policy.blockedCommands["nix"]),
+      nixPurityRule,
+      flakeInputsRule
+    );
+  }
+  rules.push(
+    nestingDepthRule,
+    undecidableRule,
+    lockfileRule,
+    secretFileRule,
+    environmentRule,
+    secretContentRule
+  );
+  for (const [id, definition] of Object.entries(policy.contentRules)) {
+    rules.push(createContentRule(id, definition));
+  }
+  return rules;
+}
+
+// Compile a declarative rule from the policy file. Every matcher given must
+// match: `command` against programs in command position, `path` against the
+// file path of read/edit/write calls, `pattern` against the raw argument.
+export function createPolicyRule(definition: RuleDefinition): Rule {
+  const commands: string[] = [definition.command ?? []].flat();
+  const paths: string[] = [definition.path ?? []].flat();
+  const pattern: RegExp | undefined =
+    definition.pattern !== undefined ? new RegExp(definition.pattern) : undefined;
+
+  const tools: string[] =
+    definition.tools ??
+    (commands.length > 0
+      ? ["bash"]
+      : paths.length > 0
+        ? ["read", "edit", "write"]
+        : ["bash", "read", "edit", "write"]);
+
+  return {
+    id: definition.id,
+    tools,
+    severity: "block",
+    message: definition.message,
+    suggestion: definition.suggestion,
+    match: (context) => {
+      const { invocations, filePath, command, policy } = context;
+      const argument: string = command ?? filePath ?? "";
+      let span: Span = { start: 0, end: argument.length };
+      let nesting: string[] | undefined;
+
+      if (pattern) {
+        const found = pattern.exec(argument);
+        if (!found) return undefined;
+        span = { start: found.index, end: found.index + found[0].length };
+      }
+      if (paths.length > 0) {
+        const options: GlobOptions = globOptionsOf(policy);
+        const matched: boolean =
+          !!filePath &&
+          pathsOf(context, filePath).some((file) =>
+            paths.some((path) => matchesGlob(path, file, options))
+          );
+        if (!matched) return undefined;
+      }
+      if (commands.length > 0) {
+        const invocation = invocations.find(({ program }) =>
+          commands.includes(program)
+        );
+        if (!invocation) return undefined;
+        span = invocation.spans[0];
+        nesting = invocation.nesting;
+      }
+      return { span, nesting };
+    },
+  };
+}
@@ -0,0 +1,224 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+// Detect credentials in text written through the edit and write tools, and
+// in the output of bash and read calls
+
+export interface SecretFinding {
+  kind: string;
+  description: string;
+  // 1-based position of the start of the secret
+  line: number;
+  column: number;
+  start: number;
+  end: number;
+}
+
+export interface ScanOptions {
+  // Also check unquoted tokens, as found in command output
+  unquoted?: boolean;
+  // Literal secret values, such as those of the project's .env files
+  values?: string[];
+}
+
+interface SecretPattern {
+  kind: string;
+  description: string;
+  pattern: RegExp;
+}
+
+const SECRET_PATTERNS: readonly SecretPattern[] = [
+  {
+    kind: "private-key",
+    description: "a private key",
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    kind: "aws-access-key",
+    description: "an AWS access key id",
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA|AGPA|AIDA|AIPA|ANPA|ANVA|AROA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    kind: "aws-secret-key",
+    description: "an AWS secret access key",
+    pattern:
+      /\baws_?secret_?(?:access_?)?key\b["']?\s*[:=]\s*["']?[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/gi,
+  },
+  {
+    kind: "github-token",
+    description: "a GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{50,})\b/g,
+  },
+  {
+    kind: "slack-token",
+    description: "a Slack token",
+    pattern:
+      /\bxox[abposr]-[A-Za-z0-9-]{10,}|https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/[A-Za-z0-9]+/g,
+  },
+  {
+    kind: "stripe-key",
+    description: "a Stripe API key",
+    pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  },
+  {
+    kind: "jwt",
+    description: "a JSON Web Token",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+];
+
+// Quoted literals made only of token characters
+const STRING_LITERAL = /(["'`])([A-Za-z0-9+/=_-]{20,})\1/g;
+
+// Runs of token characters, with base64 padding only at the end
+const BARE_TOKEN = /(?<![A-Za-z0-9+/_-])[A-Za-z0-9+/_-]{20,}={0,2}(?![A-Za-z0-9+/=_-])/g;
+
+// Names of .env variables whose values are secret
+const SECRET_NAME = /key|secret|token|pass|pwd|auth|credential|private|salt|signature|dsn/i;
+
+// `NAME=value` lines of .env files, with optional quotes and comment
+const ENV_ASSIGNMENT =
+  /^\s*(?:export\s+)?([A-Za-z_][\w.-]*)\s*=\s*(["']?)(.*?)\2\s*(?:#.*)?$/;
+
+// Shorter .env values are too likely to appear in output by chance
+const MIN_SECRET_VALUE_LENGTH = 6;
+
+// Shannon entropy limits in bits per character, as used by detect-secrets
+const BASE64_ENTROPY_LIMIT = 4.5;
+const HEX_ENTROPY_LIMIT = 3.0;
+const HEX_MIN_LENGTH = 32;
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isHighEntropy(value: string): boolean {
+  // Identifiers and words rarely mix letters and digits like keys do
+  if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value)) return false;
+  if (/^[0-9a-f]+$/i.test(value)) {
+    return (
+      value.length >= HEX_MIN_LENGTH &&
+      shannonEntropy(value) > HEX_ENTROPY_LIMIT
+    );
+  }
+  return shannonEntropy(value) > BASE64_ENTROPY_LIMIT;
+}
+
+function positionOf(text: string, index: number): { line: number; column: number } {
+  const before: string = text.slice(0, index);
+  const lineStart: number = before.lastIndexOf("\n") + 1;
+  return {
+    line: before.split("\n").length,
+    column: index - lineStart + 1,
+  };
+}
+
+// Every secret found in the text, in order of appearance. A literal already
+// reported as a known credential format is not reported again for entropy.
+export function scanSecrets(
+  text: string,
+  options: ScanOptions = {}
+): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const add = (kind: string, description: string, start: number, end: number) => {
+    if (findings.some((finding) => start < finding.end && end > finding.start)) {
+      return;
+    }
+    findings.push({ kind, description, ...positionOf(text, start), start, end });
+  };
+
+  for (const { kind, description, pattern } of SECRET_PATTERNS) {
+    for (const found of text.matchAll(pattern)) {
+      const start: number = found.index ?? 0;
+      add(kind, description, start, start + found[0].length);
+    }
+  }
+  // Longer values first, so that a value containing another is masked whole
+  const values: string[] = [...(options.values ?? [])].sort(
+    (a, b) => b.length - a.length
+  );
+  for (const value of values) {
+    for (
+      let start: number = text.indexOf(value);
+      start !== -1;
+      start = text.indexOf(value, start + value.length)
+    ) {
+      add("env-value", "a value from a .env file", start, start + value.length);
+    }
+  }
+  for (const found of text.matchAll(STRING_LITERAL)) {
+    if (!isHighEntropy(found[2])) continue;
+    const start: number = (found.index ?? 0) + 1;
+    add("high-entropy", "a high-entropy string", start, start + found[2].length);
+  }
+  if (options.unquoted) {
+    for (const found of text.matchAll(BARE_TOKEN)) {
+      // Unquoted hex is mostly commit hashes and digests
+      if (/^[0-9a-f]+$/i.test(found[0]) || !isHighEntropy(found[0])) continue;
+      const start: number = found.index ?? 0;
+      add("high-entropy", "a high-entropy string", start, start + found[0].length);
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+// Replace every secret in the text with a placeholder naming its kind
+export function maskSecrets(
+  text: string,
+  options: ScanOptions = {}
+): { text: string; count: number } {
+  const findings: SecretFinding[] = scanSecrets(text, options);
+  let masked: string = text;
+  for (const { kind, start, end } of [...findings].reverse()) {
+    masked = `${masked.slice(0, start)}<redacted:${kind}>${masked.slice(end)}`;
+  }
+  return { text: masked, count: findings.length };
+}
+
+// The secret values assigned in .env text: those of variables named like
+// secrets, URLs with passwords, and values that look like keys
+export function envSecretsOf(text: string): string[] {
+  const values: string[] = [];
+  for (const line of text.split("\n")) {
+    const found: RegExpExecArray | null = ENV_ASSIGNMENT.exec(line);
+    if (!found) continue;
+    const [, name, , value] = found;
+    if (value.length < MIN_SECRET_VALUE_LENGTH) continue;
+    if (
+      SECRET_NAME.test(name) ||
+      /:\/\/[^/\s:@]+:[^/\s@]+@/.test(value) ||
+      isHighEntropy(value)
+    ) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+// The secret values of the .env files in the project root, leaving out
+// templates such as .env.example
+export async function loadEnvSecrets(root: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await readdir(root);
+  } catch {
+    return [];
+  }
+  const values: string[] = [];
+  for (const name of names) {
+    if (!/^\.env(?:\.|$)/.test(name)) continue;
+    if (/\.(?:example|sample|template)$/.test(name)) continue;
+    try {
+      values.push(...envSecretsOf(await readFile(join(root, name), "utf8")));
+    } catch {}
+  }
+  return [...new Set(values)];
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { decodeEscapes, MAX_PARSE_DEPTH, parseShell, walk } from "./shell-parser";
+import type { SimpleCommand } from "./shell-parser";
+
+function simpleCommands(source: string): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  walk(parseShell(source), { simple: (command) => commands.push(command) });
+  return commands;
+}
+
+function commandWords(source: string): string[][] {
+  return simpleCommands(source).map((command) =>
+    command.words.map((word) => word.value)
+  );
+}
+
+describe("Shell Parser", () => {
+  describe("words", () => {
+    it("should remove quotes and escapes", () => {
+      expect(commandWords(`echo "a b" 'c d' e\\ f n""ode`)).toEqual([
+        ["echo", "a b", "c d", "e f", "node"],
+      ]);
+    });
+
+    it("should keep expansions as source text", () => {
+      expect(commandWords("cat $HOME/.env ${DIR}/x")).toEqual([
+        ["cat", "$HOME/.env", "${DIR}/x"],
+      ]);
+    });
+
+    it("should decode ANSI-C quoted strings", () => {
+      expect(
+        commandWords("$'\\x6e\\x70\\x6d' $'\\156\\u0070m' $'a\\tb\\'c'")
+      ).toEqual([["npm", "npm", "a\tb'c"]]);
+      expect(decodeEscapes("\\0156\\x70m\\'", "echo")).toBe("npm\\'");
+    });
+
+    it("should mark expansions inside double quotes", () => {
+      const [command] = simpleCommands(`echo "$a" $b`);
+      expect(command.words[1].parts[0]).toMatchObject({ quoted: true });
+      expect(command.words[2].parts[0]).not.toHaveProperty("quoted");
+    });
+
+    it("should record word spans", () => {
+      const [command] = simpleCommands("ls  'a b'");
+      expect(command.words[1]).toMatchObject({ start: 4, end: 9, text: "'a b'" });
+    });
+
+    it("should not treat comments as words", () => {
+      expect(commandWords("echo a#b # npm install")).toEqual([["echo", "a#b"]]);
+    });
+
+    it("should tolerate unterminated quotes", () => {
+      expect(commandWords("echo 'unterminated")).toEqual([
+        ["echo", "unterminated"],
+      ]);
+    });
+  });
+
+  describe("simple commands", () => {
+    it("should separate assignments from words", () => {
+      const [command] = simpleCommands('A=1 B="x y" npm install');
+      expect(command.assignments.map((a) => [a.name, a.value.value])).toEqual([
+        ["A", "1"],
+        ["B", "x y"],
+      ]);
+      expect(command.words.map((word) => word.value)).toEqual([
+        "npm",
+        "install",
+      ]);
+    });
+
+    it("should parse redirections", () => {
+      const [command] = simpleCommands("node app.js > out.log 2>&1 < in.txt");
+      expect(
+        command.redirects.map((r) => [r.fd, r.operator, r.target.value])
+      ).toEqual([
+        [undefined, ">", "out.log"],
+        ["2", ">&", "1"],
+        [undefined, "<", "in.txt"],
+      ]);
+      expect(command.words.map((word) => word.value)).toEqual([
+        "node",
+        "app.js",
+      ]);
+    });
+
+    it("should read heredoc bodies", () => {
+      const [command] = simpleCommands("cat <<EOF\nhello $USER\nEOF");
+      expect(command.redirects[0].heredoc?.value).toBe("hello $USER\n");
+    });
+
+    it("should not expand quoted heredocs", () => {
+      const commands = commandWords("cat <<'EOF'\n$(npm install)\nEOF");
+      expect(commands).toEqual([["cat"]]);
+    });
+  });
+
+  describe("lists and pipelines", () => {
+    it("should split lists and pipelines", () => {
+      expect(
+        commandWords("ls; pwd && node -v || npm -v & cat a | grep b")
+      ).toEqual([["ls"], ["pwd"], ["node", "-v"], ["npm", "-v"], ["cat", "a"], ["grep", "b"]]);
+    });
+
+    it("should visit every command in a pipeline", () => {
+      const pipelines: number[] = [];
+      walk(parseShell("echo a | tr a b | sh"), {
+        pipeline: (pipeline) => pipelines.push(pipeline.commands.length),
+      });
+      expect(pipelines).toEqual([3]);
+    });
+  });
+
+  describe("nested commands", () => {
+    it("should parse command and process substitutions", () => {
+      expect(commandWords("echo $(node -v) `npm -v` <(pip list)")).toEqual([
+        ["echo", "$(node -v)", "`npm -v`", "<(pip list)"],
+        ["node", "-v"],
+        ["npm", "-v"],
+        ["pip", "list"],
+      ]);
+    });
+
+    it("should parse substitutions in parameter defaults", () => {
+      expect(commandWords("echo ${V:-$(npm -v)}")).toEqual([
+        ["echo", "${V:-$(npm -v)}"],
+        ["npm", "-v"],
+      ]);
+    });
+
+    it("should parse subshells, groups and functions", () => {
+      expect(commandWords("(cd a && make) ; { ls; } ; f() { node; }")).toEqual([
+        ["cd", "a"],
+        ["make"],
+        ["ls"],
+        ["node"],
+      ]);
+    });
+
+    it("should parse compound commands", () => {
+      expect(
+        commandWords(
+          "if a; then b; elif c; then d; else e; fi; for x in 1 2; do f $x; done; case $y in g|h) i;; *) j;; esac; while k; do l; done"
+        )
+      ).toEqual([["a"], ["b"], ["c"], ["d"], ["e"], ["f", "$x"], ["i"], ["j"], ["k"], ["l"]]);
+    });
+
+    it("should leave text nested beyond the depth limit unparsed", () => {
+      const source = `echo ${"$(".repeat(5000)}npm i`;
+      const script = parseShell(source);
+      const [unparsed] = script.unparsed ?? [];
+      expect(unparsed.start).toBe(5 + 2 * MAX_PARSE_DEPTH);
+      expect(unparsed.end).toBe(source.length);
+      expect(unparsed.text).toBe(source.slice(unparsed.start));
+      expect(
+        parseShell(`${"$(".repeat(MAX_PARSE_DEPTH - 1)}npm i`).unparsed
+      ).toBeUndefined();
+    });
+
+    it("should not treat test operands as commands", () => {
+      expect(commandWords("[[ -n $x && node ]] && npm test")).toEqual([
+        ["npm", "test"],
+      ]);
+    });
+  });
+});
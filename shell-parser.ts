@@ -0,0 +1,1163 @@
+// POSIX/bash command parser used to find the words that actually sit in
+// command position. It is deliberately tolerant: unterminated quotes and
+// substitutions run to the end of the input instead of throwing, so a
+// malformed command is still inspected rather than silently skipped.
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type Quote = "none" | "single" | "double" | "ansi-c";
+
+// Expansions inside double quotes are `quoted`, which keeps their result
+// from being split into words
+export type WordPart =
+  | { type: "literal"; value: string; quote: Quote }
+  | {
+      type: "parameter";
+      name: string;
+      text: string;
+      operand: WordPart[];
+      quoted?: boolean;
+    }
+  | {
+      type: "command-substitution";
+      style: "dollar" | "backtick" | "process";
+      script: List;
+      text: string;
+      quoted?: boolean;
+    }
+  | { type: "arithmetic"; text: string };
+
+export interface Word extends Span {
+  type: "word";
+  text: string;
+  value: string;
+  parts: WordPart[];
+}
+
+export interface Assignment extends Span {
+  type: "assignment";
+  name: string;
+  value: Word;
+}
+
+export interface Redirect extends Span {
+  type: "redirect";
+  fd?: string;
+  operator: string;
+  target: Word;
+  heredoc?: Word;
+}
+
+export interface SimpleCommand extends Span {
+  type: "simple";
+  assignments: Assignment[];
+  words: Word[];
+  redirects: Redirect[];
+}
+
+export interface Subshell extends Span {
+  type: "subshell";
+  body: List;
+  redirects: Redirect[];
+}
+
+export interface Group extends Span {
+  type: "group";
+  body: List;
+  redirects: Redirect[];
+}
+
+// if/while/until/for/select/case and the [[ ]] / (( )) test commands.
+// Conditions and bodies are kept in source order; `words` holds loop items,
+// case subjects and patterns, and test operands.
+export interface CompoundCommand extends Span {
+  type: "compound";
+  keyword: string;
+  words: Word[];
+  bodies: List[];
+  redirects: Redirect[];
+}
+
+export interface FunctionDefinition extends Span {
+  type: "function";
+  name: string;
+  body: Command;
+}
+
+export type Command =
+  | SimpleCommand
+  | Subshell
+  | Group
+  | CompoundCommand
+  | FunctionDefinition;
+
+export interface Pipeline extends Span {
+  type: "pipeline";
+  negated: boolean;
+  commands: Command[];
+}
+
+export interface AndOr extends Span {
+  type: "and-or";
+  pipelines: Pipeline[];
+  operators: string[];
+}
+
+export interface List extends Span {
+  type: "list";
+  items: AndOr[];
+  separators: string[];
+  // On the list parseShell returns: text nested deeper than MAX_PARSE_DEPTH,
+  // which is left unparsed
+  unparsed?: (Span & { text: string })[];
+}
+
+export interface Visitor {
+  simple?: (command: SimpleCommand) => void;
+  pipeline?: (pipeline: Pipeline) => void;
+}
+
+const RESERVED_WORDS: ReadonlySet<string> = new Set([
+  "!",
+  "{",
+  "}",
+  "[[",
+  "case",
+  "do",
+  "done",
+  "elif",
+  "else",
+  "esac",
+  "fi",
+  "for",
+  "function",
+  "if",
+  "in",
+  "select",
+  "then",
+  "time",
+  "until",
+  "while",
+]);
+
+const NO_STOP: ReadonlySet<string> = new Set();
+
+// Substitutions, subshells, groups and `${...}` operands nested deeper than
+// this are not parsed, so that deeply nested input cannot exhaust the stack
+export const MAX_PARSE_DEPTH = 100;
+
+const REDIRECT_PATTERN: RegExp =
+  /^(\d+|\{[A-Za-z_][A-Za-z0-9_]*\})?(<<<|<<-|<<|<>|<&|>&|>>|>\||&>>|&>|<|>)/;
+
+function isMetachar(c: string): boolean {
+  return (
+    c === " " ||
+    c === "\t" ||
+    c === "\n" ||
+    c === ";" ||
+    c === "&" ||
+    c === "|" ||
+    c === "<" ||
+    c === ">" ||
+    c === "(" ||
+    c === ")"
+  );
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  e: "\x1b",
+  E: "\x1b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+  "?": "?",
+};
+
+// Decode backslash escapes as in `$'...'` strings and printf formats, or as
+// `echo -e` and `printf %b` do, where octal escapes start with `\0`
+export function decodeEscapes(
+  text: string,
+  style: "ansi-c" | "echo" = "ansi-c"
+): string {
+  const octal: RegExp = style === "ansi-c" ? /^[0-7]{1,3}/ : /^0[0-7]{0,3}/;
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== "\\" || i + 1 === text.length) {
+      result += text[i];
+      continue;
+    }
+    const rest: string = text.slice(i + 1);
+    const numeric: RegExpExecArray | null =
+      /^x([0-9a-fA-F]{1,2})/.exec(rest) ??
+      /^u([0-9a-fA-F]{1,4})/.exec(rest) ??
+      /^U([0-9a-fA-F]{1,8})/.exec(rest);
+    const octalDigits: RegExpExecArray | null = octal.exec(rest);
+    if (octalDigits) {
+      const digits: string =
+        style === "echo" ? octalDigits[0].slice(1) : octalDigits[0];
+      result += String.fromCharCode(parseInt(digits || "0", 8) & 0xff);
+      i += octalDigits[0].length;
+    } else if (numeric && parseInt(numeric[1], 16) <= 0x10ffff) {
+      result += String.fromCodePoint(parseInt(numeric[1], 16));
+      i += numeric[0].length;
+    } else if (rest[0] === "c" && style === "ansi-c" && rest.length > 1) {
+      // `\cX` is the control character for X
+      result += String.fromCharCode(rest.charCodeAt(1) & 0x1f);
+      i += 2;
+    } else if (
+      Object.hasOwn(SIMPLE_ESCAPES, rest[0]) &&
+      (style === "ansi-c" || !"'\"?".includes(rest[0]))
+    ) {
+      result += SIMPLE_ESCAPES[rest[0]];
+      i++;
+    } else {
+      result += text[i];
+    }
+  }
+  return result;
+}
+
+function partsValue(parts: WordPart[]): string {
+  return parts
+    .map((part) => (part.type === "literal" ? part.value : part.text))
+    .join("");
+}
+
+interface PendingHeredoc {
+  redirect: Redirect;
+  delimiter: string;
+  stripTabs: boolean;
+  quoted: boolean;
+}
+
+class Parser {
+  private pos: number = 0;
+  private pendingHeredocs: PendingHeredoc[] = [];
+
+  constructor(
+    private readonly src: string,
+    private readonly base: number = 0,
+    private depth: number = 0,
+    readonly unparsed: (Span & { text: string })[] = []
+  ) {}
+
+  parseScript(): List {
+    const list = this.parseList(NO_STOP, false);
+    // Anything left over is a stray closing token; keep going so that the
+    // rest of the input is still inspected.
+    while (this.pos < this.src.length) {
+      this.pos++;
+      const rest = this.parseList(NO_STOP, false);
+      list.items.push(...rest.items);
+      list.separators.push(...rest.separators);
+      list.end = rest.end;
+    }
+    return list;
+  }
+
+  // Leaves the rest of the input unparsed once nesting gets too deep. Every
+  // enclosing construct then ends with the input.
+  private skipRest(): void {
+    const start = this.pos;
+    this.pos = this.src.length;
+    this.unparsed.push({ text: this.src.slice(start), ...this.span(start) });
+  }
+
+  private span(start: number): Span {
+    return { start: this.base + start, end: this.base + this.pos };
+  }
+
+  private skipBlanks(): void {
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (c === " " || c === "\t" || c === "\r") {
+        this.pos++;
+      } else if (c === "\\" && this.src[this.pos + 1] === "\n") {
+        this.pos += 2;
+      } else if (c === "#") {
+        while (this.pos < this.src.length && this.src[this.pos] !== "\n") {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private consumeNewline(): void {
+    this.pos++;
+    this.readHeredocBodies();
+  }
+
+  private skipLinebreaks(): void {
+    for (;;) {
+      this.skipBlanks();
+      if (this.src[this.pos] !== "\n") return;
+      this.consumeNewline();
+    }
+  }
+
+  private peekReservedWord(): string | undefined {
+    let end = this.pos;
+    while (end < this.src.length && !isMetachar(this.src[end])) end++;
+    const candidate = this.src.slice(this.pos, end);
+    return RESERVED_WORDS.has(candidate) ? candidate : undefined;
+  }
+
+  private consumeReservedWord(word: string): boolean {
+    this.skipLinebreaks();
+    if (this.peekReservedWord() !== word) return false;
+    this.pos += word.length;
+    return true;
+  }
+
+  private parseList(stop: ReadonlySet<string>, closeParen: boolean): List {
+    const start = this.pos;
+    const items: AndOr[] = [];
+    const separators: string[] = [];
+    if (this.depth >= MAX_PARSE_DEPTH) this.skipRest();
+    this.depth++;
+
+    for (;;) {
+      this.skipLinebreaks();
+      if (this.pos >= this.src.length) break;
+
+      const c = this.src[this.pos];
+      if (c === ")") {
+        if (closeParen) break;
+        this.pos++;
+        continue;
+      }
+      if (c === ";" && this.src[this.pos + 1] === ";") break;
+      if (c === ";" || (c === "&" && this.src[this.pos + 1] !== ">")) {
+        this.pos++;
+        continue;
+      }
+
+      const reserved = this.peekReservedWord();
+      if (reserved && stop.has(reserved)) break;
+
+      const before = this.pos;
+      items.push(this.parseAndOr(stop, closeParen));
+      this.skipBlanks();
+
+      const next = this.src[this.pos];
+      if (next === ";" && this.src[this.pos + 1] !== ";") {
+        this.pos++;
+        separators.push(";");
+      } else if (next === "&" && this.src[this.pos + 1] !== "&") {
+        this.pos++;
+        separators.push("&");
+      } else if (next === "\n") {
+        this.consumeNewline();
+        separators.push("\n");
+      } else {
+        separators.push("");
+        if (this.pos === before) this.pos++;
+      }
+    }
+
+    this.depth--;
+    return { type: "list", items, separators, ...this.span(start) };
+  }
+
+  private parseAndOr(stop: ReadonlySet<string>, closeParen: boolean): AndOr {
+    const start = this.pos;
+    const pipelines: Pipeline[] = [this.parsePipeline(stop, closeParen)];
+    const operators: string[] = [];
+
+    for (;;) {
+      this.skipBlanks();
+      const op = this.src.slice(this.pos, this.pos + 2);
+      if (op !== "&&" && op !== "||") break;
+      this.pos += 2;
+      operators.push(op);
+      this.skipLinebreaks();
+      pipelines.push(this.parsePipeline(stop, closeParen));
+    }
+
+    return { type: "and-or", pipelines, operators, ...this.span(start) };
+  }
+
+  private parsePipeline(
+    stop: ReadonlySet<string>,
+    closeParen: boolean
+  ): Pipeline {
+    const start = this.pos;
+    let negated = false;
+
+    for (;;) {
+      this.skipBlanks();
+      const reserved = this.peekReservedWord();
+      if (reserved === "!") {
+        negated = !negated;
+        this.pos++;
+      } else if (reserved === "time") {
+        this.pos += 4;
+        this.skipBlanks();
+        if (this.src.startsWith("-p", this.pos)) this.pos += 2;
+      } else {
+        break;
+      }
+    }
+
+    const commands: Command[] = [this.parseCommand(stop, closeParen)];
+    for (;;) {
+      this.skipBlanks();
+      if (this.src[this.pos] !== "|" || this.src[this.pos + 1] === "|") break;
+      this.pos += this.src[this.pos + 1] === "&" ? 2 : 1;
+      this.skipLinebreaks();
+      commands.push(this.parseCommand(stop, closeParen));
+    }
+
+    return { type: "pipeline", negated, commands, ...this.span(start) };
+  }
+
+  private parseCommand(stop: ReadonlySet<string>, closeParen: boolean): Command {
+    this.skipBlanks();
+    const start = this.pos;
+
+    if (this.src[this.pos] === "(") {
+      if (this.src[this.pos + 1] === "(") {
+        const text = this.readBalanced("((", "))");
+        const words = [this.literalWord(text, start)];
+        return this.compound("((", words, [], start);
+      }
+      this.pos++;
+      const body = this.parseList(NO_STOP, true);
+      if (this.src[this.pos] === ")") this.pos++;
+      const redirects = this.parseRedirects();
+      return { type: "subshell", body, redirects, ...this.span(start) };
+    }
+
+    switch (this.peekReservedWord()) {
+      case "{": {
+        this.pos++;
+        const body = this.parseList(new Set(["}"]), closeParen);
+        this.consumeReservedWord("}");
+        const redirects = this.parseRedirects();
+        return { type: "group", body, redirects, ...this.span(start) };
+      }
+      case "if":
+        return this.parseIf(start);
+      case "while":
+      case "until":
+        return this.parseLoop(start);
+      case "for":
+      case "select":
+        return this.parseFor(start);
+      case "case":
+        return this.parseCase(start);
+      case "function":
+        return this.parseFunction(start);
+      case "[[":
+        return this.parseTest(start);
+      default:
+        return this.parseSimpleCommand(stop, closeParen);
+    }
+  }
+
+  private compound(
+    keyword: string,
+    words: Word[],
+    bodies: List[],
+    start: number
+  ): CompoundCommand {
+    const redirects = this.parseRedirects();
+    return {
+      type: "compound",
+      keyword,
+      words,
+      bodies,
+      redirects,
+      ...this.span(start),
+    };
+  }
+
+  private parseIf(start: number): CompoundCommand {
+    this.pos += 2;
+    const bodies: List[] = [this.parseList(new Set(["then"]), false)];
+    this.consumeReservedWord("then");
+    bodies.push(this.parseList(new Set(["elif", "else", "fi"]), false));
+
+    while (this.consumeReservedWord("elif")) {
+      bodies.push(this.parseList(new Set(["then"]), false));
+      this.consumeReservedWord("then");
+      bodies.push(this.parseList(new Set(["elif", "else", "fi"]), false));
+    }
+    if (this.consumeReservedWord("else")) {
+      bodies.push(this.parseList(new Set(["fi"]), false));
+    }
+    this.consumeReservedWord("fi");
+    return this.compound("if", [], bodies, start);
+  }
+
+  private parseLoop(start: number): CompoundCommand {
+    const keyword = this.peekReservedWord() as string;
+    this.pos += keyword.length;
+    const bodies: List[] = [this.parseList(new Set(["do"]), false)];
+    bodies.push(...this.parseDoGroup());
+    return this.compound(keyword, [], bodies, start);
+  }
+
+  private parseDoGroup(): List[] {
+    if (!this.consumeReservedWord("do")) return [];
+    const body = this.parseList(new Set(["done"]), false);
+    this.consumeReservedWord("done");
+    return [body];
+  }
+
+  private parseFor(start: number): CompoundCommand {
+    const keyword = this.peekReservedWord() as string;
+    this.pos += keyword.length;
+    this.skipBlanks();
+
+    const words: Word[] = [];
+    if (this.src.startsWith("((", this.pos)) {
+      const headerStart = this.pos;
+      words.push(this.literalWord(this.readBalanced("((", "))"), headerStart));
+    } else {
+      const name = this.readWord();
+      if (name) words.push(name);
+      this.skipLinebreaks();
+      if (this.peekReservedWord() === "in") {
+        this.pos += 2;
+        for (;;) {
+          this.skipBlanks();
+          const c = this.src[this.pos];
+          if (c === undefined || c === ";" || c === "\n") break;
+          const word = this.readWord();
+          if (!word) break;
+          words.push(word);
+        }
+      }
+    }
+
+    this.skipBlanks();
+    if (this.src[this.pos] === ";") this.pos++;
+    return this.compound(keyword, words, this.parseDoGroup(), start);
+  }
+
+  private parseCase(start: number): CompoundCommand {
+    this.pos += 4;
+    this.skipBlanks();
+    const words: Word[] = [];
+    const bodies: List[] = [];
+
+    const subject = this.readWord();
+    if (subject) words.push(subject);
+    this.consumeReservedWord("in");
+
+    for (;;) {
+      this.skipLinebreaks();
+      if (this.pos >= this.src.length) break;
+      if (this.peekReservedWord() === "esac") {
+        this.pos += 4;
+        break;
+      }
+      if (this.src[this.pos] === "(") this.pos++;
+
+      // Patterns are separated by `|` and closed by `)`.
+      for (;;) {
+        this.skipBlanks();
+        const pattern = this.readWord();
+        if (pattern) words.push(pattern);
+        this.skipBlanks();
+        if (this.src[this.pos] === "|") {
+          this.pos++;
+          continue;
+        }
+        if (this.src[this.pos] === ")") this.pos++;
+        break;
+      }
+
+      bodies.push(this.parseList(new Set(["esac"]), false));
+      const terminator = /^(;;&|;;|;&)/.exec(this.src.slice(this.pos));
+      if (terminator) {
+        this.pos += terminator[0].length;
+      } else if (this.peekReservedWord() !== "esac") {
+        break;
+      }
+    }
+
+    return this.compound("case", words, bodies, start);
+  }
+
+  private parseFunction(start: number): FunctionDefinition {
+    this.pos += 8;
+    this.skipBlanks();
+    const name = this.readWord();
+    this.skipBlanks();
+    if (this.src.startsWith("()", this.pos)) this.pos += 2;
+    this.skipLinebreaks();
+    const body = this.parseCommand(NO_STOP, false);
+    return {
+      type: "function",
+      name: name ? name.value : "",
+      body,
+      ...this.span(start),
+    };
+  }
+
+  private parseTest(start: number): CompoundCommand {
+    this.pos += 2;
+    const words: Word[] = [];
+    for (;;) {
+      this.skipLinebreaks();
+      if (this.pos >= this.src.length) break;
+      if (this.src.startsWith("]]", this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const operator = /^(&&|\|\||[()<>!])/.exec(this.src.slice(this.pos));
+      if (operator) {
+        this.pos += operator[0].length;
+        continue;
+      }
+      const word = this.readWord();
+      if (!word) {
+        this.pos++;
+        continue;
+      }
+      words.push(word);
+    }
+    return this.compound("[[", words, [], start);
+  }
+
+  private parseSimpleCommand(
+    stop: ReadonlySet<string>,
+    closeParen: boolean
+  ): Command {
+    const start = this.pos;
+    const assignments: Assignment[] = [];
+    const words: Word[] = [];
+    const redirects: Redirect[] = [];
+
+    for (;;) {
+      this.skipBlanks();
+      if (this.pos >= this.src.length) break;
+      const c = this.src[this.pos];
+
+      if (c === "(") {
+        // name() { ...; } function definitions
+        if (words.length === 1 && assignments.length === 0) {
+          const after = /^\(\s*\)/.exec(this.src.slice(this.pos));
+          if (after) {
+            this.pos += after[0].length;
+            this.skipLinebreaks();
+            const body = this.parseCommand(NO_STOP, false);
+            return {
+              type: "function",
+              name: words[0].value,
+              body,
+              ...this.span(start),
+            };
+          }
+        }
+        break;
+      }
+
+      const redirect = this.parseRedirect();
+      if (redirect) {
+        redirects.push(redirect);
+        continue;
+      }
+
+      const processSubstitution =
+        (c === "<" || c === ">") && this.src[this.pos + 1] === "(";
+      if (isMetachar(c) && !processSubstitution) break;
+      if (words.length === 0 && assignments.length === 0) {
+        const reserved = this.peekReservedWord();
+        if (reserved && (stop.has(reserved) || reserved === "}")) break;
+      }
+
+      const word = this.readWord();
+      if (!word) break;
+
+      const assignment =
+        words.length === 0
+          ? /^([A-Za-z_][A-Za-z0-9_]*)(\[[^\]]*\])?\+?=/.exec(word.text)
+          : null;
+      if (assignment) {
+        const valueStart = word.start + assignment[0].length - this.base;
+        const valueText = this.src.slice(valueStart, word.end - this.base);
+        const value = valueText.startsWith("(")
+          ? undefined
+          : new Parser(valueText, this.base + valueStart).readWord();
+        assignments.push({
+          type: "assignment",
+          name: assignment[1],
+          value: value ?? this.literalWord(valueText, valueStart),
+          start: word.start,
+          end: word.end,
+        });
+      } else {
+        words.push(word);
+      }
+    }
+
+    return {
+      type: "simple",
+      assignments,
+      words,
+      redirects,
+      ...this.span(start),
+    };
+  }
+
+  private parseRedirects(): Redirect[] {
+    const redirects: Redirect[] = [];
+    for (;;) {
+      this.skipBlanks();
+      const redirect = this.parseRedirect();
+      if (!redirect) return redirects;
+      redirects.push(redirect);
+    }
+  }
+
+  private parseRedirect(): Redirect | undefined {
+    const match = REDIRECT_PATTERN.exec(this.src.slice(this.pos));
+    if (!match) return undefined;
+    const operator = match[2];
+    // `<(...)` and `>(...)` are process substitutions, not redirections.
+    if (
+      (operator === "<" || operator === ">") &&
+      this.src[this.pos + match[0].length] === "("
+    ) {
+      return undefined;
+    }
+
+    const start = this.pos;
+    this.pos += match[0].length;
+    this.skipBlanks();
+    const target = this.readWord() ?? this.literalWord("", this.pos);
+    const redirect: Redirect = {
+      type: "redirect",
+      fd: match[1],
+      operator,
+      target,
+      ...this.span(start),
+    };
+
+    if (operator === "<<" || operator === "<<-") {
+      this.pendingHeredocs.push({
+        redirect,
+        delimiter: target.value,
+        stripTabs: operator === "<<-",
+        quoted: target.parts.some(
+          (part) => part.type === "literal" && part.quote !== "none"
+        ) || /\\/.test(target.text),
+      });
+    }
+    return redirect;
+  }
+
+  private readHeredocBodies(): void {
+    const pending = this.pendingHeredocs;
+    this.pendingHeredocs = [];
+
+    for (const heredoc of pending) {
+      const bodyStart = this.pos;
+      let bodyEnd = this.src.length;
+      let resume = this.src.length;
+
+      while (this.pos < this.src.length) {
+        const lineEnd = this.src.indexOf("\n", this.pos);
+        const end = lineEnd === -1 ? this.src.length : lineEnd;
+        let line = this.src.slice(this.pos, end);
+        if (heredoc.stripTabs) line = line.replace(/^\t+/, "");
+        if (line === heredoc.delimiter) {
+          bodyEnd = this.pos;
+          resume = lineEnd === -1 ? end : end + 1;
+          break;
+        }
+        this.pos = lineEnd === -1 ? end : end + 1;
+      }
+
+      const body = this.src.slice(bodyStart, bodyEnd);
+      heredoc.redirect.heredoc = heredoc.quoted
+        ? this.literalWord(body, bodyStart)
+        : new Parser(body, this.base + bodyStart).readExpandingText();
+      this.pos = resume;
+    }
+  }
+
+  private literalWord(text: string, start: number): Word {
+    return {
+      type: "word",
+      text,
+      value: text,
+      parts: [{ type: "literal", value: text, quote: "single" }],
+      start: this.base + start,
+      end: this.base + start + text.length,
+    };
+  }
+
+  private makeWord(parts: WordPart[], start: number): Word {
+    return {
+      type: "word",
+      text: this.src.slice(start, this.pos),
+      value: partsValue(parts),
+      parts,
+      ...this.span(start),
+    };
+  }
+
+  // Reads the body of an unquoted heredoc: expansions apply, quotes do not.
+  readExpandingText(): Word {
+    return this.makeWord(this.readDoubleQuoted(null), 0);
+  }
+
+  readWord(): Word | undefined {
+    const start = this.pos;
+    const parts = this.readParts(null);
+    if (this.pos === start) return undefined;
+    return this.makeWord(parts, start);
+  }
+
+  // Reads word parts until an unquoted metacharacter, or until `terminator`
+  // when reading the operand of a `${...}` expansion.
+  private readParts(terminator: string | null): WordPart[] {
+    const start = this.pos;
+    const parts: WordPart[] = [];
+    let literal = "";
+    const flush = (): void => {
+      if (literal) parts.push({ type: "literal", value: literal, quote: "none" });
+      literal = "";
+    };
+
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+
+      if (terminator !== null) {
+        if (c === terminator) break;
+      } else if (c === "(" && /^[A-Za-z_][A-Za-z0-9_]*\+?=$/.test(this.src.slice(start, this.pos))) {
+        // Array assignment: name=(a b c)
+        literal += this.readBalanced("(", ")");
+        continue;
+      } else if ((c === "<" || c === ">") && this.src[this.pos + 1] === "(") {
+        flush();
+        const subStart = this.pos;
+        this.pos += 2;
+        const script = this.parseList(NO_STOP, true);
+        if (this.src[this.pos] === ")") this.pos++;
+        parts.push({
+          type: "command-substitution",
+          style: "process",
+          script,
+          text: this.src.slice(subStart, this.pos),
+        });
+        continue;
+      } else if (isMetachar(c)) {
+        break;
+      }
+
+      if (c === "\\") {
+        if (this.src[this.pos + 1] === "\n") {
+          this.pos += 2;
+          continue;
+        }
+        if (this.pos + 1 < this.src.length) literal += this.src[this.pos + 1];
+        this.pos += 2;
+      } else if (c === "'") {
+        flush();
+        const end = this.src.indexOf("'", this.pos + 1);
+        const close = end === -1 ? this.src.length : end;
+        parts.push({
+          type: "literal",
+          value: this.src.slice(this.pos + 1, close),
+          quote: "single",
+        });
+        this.pos = close + 1;
+      } else if (c === '"') {
+        flush();
+        this.pos++;
+        parts.push(...this.readDoubleQuoted('"'));
+      } else if (c === "$" && this.src[this.pos + 1] === "'") {
+        flush();
+        parts.push({ type: "literal", value: this.readAnsiC(), quote: "ansi-c" });
+      } else if (c === "$" && this.src[this.pos + 1] === '"') {
+        flush();
+        this.pos += 2;
+        parts.push(...this.readDoubleQuoted('"'));
+      } else if (c === "$") {
+        const part = this.readDollar();
+        if (part.type === "literal") {
+          literal += part.value;
+        } else {
+          flush();
+          parts.push(part);
+        }
+      } else if (c === "`") {
+        flush();
+        parts.push(this.readBacktick(false));
+      } else {
+        literal += c;
+        this.pos++;
+      }
+    }
+
+    flush();
+    return parts;
+  }
+
+  // Reads the contents of a double-quoted string after the opening quote.
+  // With a null terminator the rest of the input is read (heredoc bodies).
+  private readDoubleQuoted(terminator: '"' | null): WordPart[] {
+    const parts: WordPart[] = [];
+    let literal = "";
+    const flush = (): void => {
+      if (literal) parts.push({ type: "literal", value: literal, quote: "double" });
+      literal = "";
+    };
+    const escapable = terminator === null ? "$`\\\n" : '$`"\\\n';
+
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (c === terminator) {
+        this.pos++;
+        break;
+      }
+      if (c === "\\" && escapable.includes(this.src[this.pos + 1] ?? "")) {
+        if (this.src[this.pos + 1] !== "\n") literal += this.src[this.pos + 1];
+        this.pos += 2;
+      } else if (c === "$") {
+        const part = this.readDollar();
+        if (part.type === "literal") {
+          literal += part.value;
+        } else if (part.type === "arithmetic") {
+          flush();
+          parts.push(part);
+        } else {
+          flush();
+          parts.push({ ...part, quoted: true });
+        }
+      } else if (c === "`") {
+        flush();
+        parts.push({ ...this.readBacktick(terminator !== null), quoted: true });
+      } else {
+        literal += c;
+        this.pos++;
+      }
+    }
+
+    flush();
+    return parts;
+  }
+
+  private readAnsiC(): string {
+    let i = this.pos + 2;
+    while (i < this.src.length && this.src[i] !== "'") {
+      i += this.src[i] === "\\" ? 2 : 1;
+    }
+    const value = this.src.slice(this.pos + 2, Math.min(i, this.src.length));
+    this.pos = i + 1;
+    return decodeEscapes(value);
+  }
+
+  private readDollar(): WordPart {
+    const start = this.pos;
+    const next = this.src[this.pos + 1];
+
+    if (next === "(" && this.src[this.pos + 2] === "(") {
+      this.pos++;
+      const text = "$" + this.readBalanced("((", "))");
+      return { type: "arithmetic", text };
+    }
+
+    if (next === "(") {
+      this.pos += 2;
+      const script = this.parseList(NO_STOP, true);
+      if (this.src[this.pos] === ")") this.pos++;
+      return {
+        type: "command-substitution",
+        style: "dollar",
+        script,
+        text: this.src.slice(start, this.pos),
+      };
+    }
+
+    if (next === "{") {
+      this.pos += 2;
+      const name =
+        /^[#!]?([A-Za-z_][A-Za-z0-9_]*|\d+|[@*#?$!-])/.exec(
+          this.src.slice(this.pos)
+        )?.[0] ?? "";
+      this.pos += name.length;
+      if (this.depth >= MAX_PARSE_DEPTH) this.skipRest();
+      this.depth++;
+      const operand = this.readParts("}");
+      this.depth--;
+      if (this.src[this.pos] === "}") this.pos++;
+      return {
+        type: "parameter",
+        name: name.replace(/^[#!]/, ""),
+        text: this.src.slice(start, this.pos),
+        operand,
+      };
+    }
+
+    const simple = /^([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/.exec(
+      this.src.slice(this.pos + 1)
+    );
+    if (simple) {
+      this.pos += 1 + simple[0].length;
+      return {
+        type: "parameter",
+        name: simple[0],
+        text: this.src.slice(start, this.pos),
+        operand: [],
+      };
+    }
+
+    this.pos++;
+    return { type: "literal", value: "$", quote: "none" };
+  }
+
+  private readBacktick(
+    inDoubleQuotes: boolean
+  ): Extract<WordPart, { type: "command-substitution" }> {
+    const start = this.pos;
+    let inner = "";
+    let i = this.pos + 1;
+    while (i < this.src.length && this.src[i] !== "`") {
+      const escaped = this.src[i + 1];
+      if (
+        this.src[i] === "\\" &&
+        escaped !== undefined &&
+        ("$`\\".includes(escaped) || (inDoubleQuotes && escaped === '"'))
+      ) {
+        inner += escaped;
+        i += 2;
+      } else {
+        inner += this.src[i];
+        i++;
+      }
+    }
+    this.pos = Math.min(i + 1, this.src.length);
+    return {
+      type: "command-substitution",
+      style: "backtick",
+      script: new Parser(
+        inner,
+        this.base + start + 1,
+        this.depth + 1,
+        this.unparsed
+      ).parseScript(),
+      text: this.src.slice(start, this.pos),
+    };
+  }
+
+  // Reads from an opening token to its matching close, honouring nesting and
+  // quotes, and returns the raw text.
+  private readBalanced(open: string, close: string): string {
+    const start = this.pos;
+    let depth = 0;
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (this.src.startsWith(open, this.pos)) {
+        depth++;
+        this.pos += open.length;
+      } else if (this.src.startsWith(close, this.pos)) {
+        depth--;
+        this.pos += close.length;
+        if (depth === 0) break;
+      } else if (c === "(") {
+        depth++;
+        this.pos++;
+      } else if (c === ")") {
+        depth--;
+        this.pos++;
+        if (depth <= 0) break;
+      } else if (c === "'" || c === '"') {
+        const end = this.src.indexOf(c, this.pos + 1);
+        this.pos = end === -1 ? this.src.length : end + 1;
+      } else if (c === "\\") {
+        this.pos += 2;
+      } else {
+        this.pos++;
+      }
+    }
+    return this.src.slice(start, this.pos);
+  }
+}
+
+export function parseShell(source: string): List {
+  const parser = new Parser(source);
+  const list: List = parser.parseScript();
+  if (parser.unparsed.length > 0) list.unparsed = parser.unparsed;
+  return list;
+}
+
+// Scripts run by command and process substitutions inside word parts.
+export function substitutionsOf(parts: WordPart[]): List[] {
+  const scripts: List[] = [];
+  for (const part of parts) {
+    if (part.type === "command-substitution") scripts.push(part.script);
+    if (part.type === "parameter") scripts.push(...substitutionsOf(part.operand));
+  }
+  return scripts;
+}
+
+function walkWord(word: Word | undefined, visitor: Visitor): void {
+  if (!word) return;
+  for (const script of substitutionsOf(word.parts)) walk(script, visitor);
+}
+
+function walkRedirects(redirects: Redirect[], visitor: Visitor): void {
+  for (const redirect of redirects) {
+    walkWord(redirect.target, visitor);
+    walkWord(redirect.heredoc, visitor);
+  }
+}
+
+function walkCommand(command: Command, visitor: Visitor): void {
+  switch (command.type) {
+    case "simple":
+      visitor.simple?.(command);
+      for (const assignment of command.assignments) {
+        walkWord(assignment.value, visitor);
+      }
+      for (const word of command.words) walkWord(word, visitor);
+      walkRedirects(command.redirects, visitor);
+      break;
+    case "subshell":
+    case "group":
+      walk(command.body, visitor);
+      walkRedirects(command.redirects, visitor);
+      break;
+    case "compound":
+      for (const word of command.words) walkWord(word, visitor);
+      for (const body of command.bodies) walk(body, visitor);
+      walkRedirects(command.redirects, visitor);
+      break;
+    case "function":
+      walkCommand(command.body, visitor);
+      break;
+  }
+}
+
+// Visits every pipeline and simple command in the script, including those
+// nested in substitutions, subshells, compound commands and heredoc bodies.
+export function walk(list: List, visitor: Visitor): void {
+  for (const item of list.items) {
+    for (const pipeline of item.pipelines) {
+      visitor.pipeline?.(pipeline);
+      for (const command of pipeline.commands) walkCommand(command, visitor);
+    }
+  }
+}
+
+export function isStaticWord(word: Word): boolean {
+  return word.parts.every((part) => part.type === "literal");
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { collectInvocations } from "./invocations";
+import { translateCommand } from "./translate";
+
+function translate(command: string): string | undefined {
+  const [{ name, words }] = collectInvocations(command);
+  return translateCommand(name, words.slice(1));
+}
+
+describe("translateCommand", () => {
+  it("should translate npm commands", () => {
+    expect(translate("npm install")).toBe("bun install");
+    expect(translate("npm i -D vitest")).toBe("bun add -d vitest");
+    expect(translate("npm install --save-exact react@18")).toBe(
+      "bun add --exact react@18"
+    );
+    expect(translate("npm ci")).toBe("bun install --frozen-lockfile");
+    expect(translate("npm uninstall lodash")).toBe("bun remove lodash");
+    expect(translate("npm run build -- --watch")).toBe("bun run build --watch");
+    expect(translate("npm test")).toBe("bun run test");
+    expect(translate("npm --version")).toBe("bun --version");
+    expect(translate("npm init")).toBe("bun init");
+    expect(translate("npm init -y")).toBe("bun init -y");
+    expect(translate("npm init vite@latest app")).toBe(
+      "bun create vite@latest app"
+    );
+  });
+
+  it("should translate npx and npm exec", () => {
+    expect(translate("npx tsc --noEmit")).toBe("bunx tsc --noEmit");
+    expect(translate("npx -y create-vite app")).toBe("bunx create-vite app");
+    expect(translate("npm exec -- eslint .")).toBe("bunx eslint .");
+  });
+
+  it("should translate pip and python commands", () => {
+    expect(translate("pip install -r requirements.txt")).toBe(
+      "uv pip install -r requirements.txt"
+    );
+    expect(translate("python -m pytest -k foo")).toBe(
+      "uv run python -m pytest -k foo"
+    );
+    expect(translate("python3 -m pip install requests")).toBe(
+      "uv pip install requests"
+    );
+    expect(translate("python3 -m venv .venv")).toBe("uv venv .venv");
+    expect(translate("node server.js")).toBe("bun server.js");
+  });
+
+  it("should keep the original quoting of arguments", () => {
+    expect(translate(`python -c "print('hi')"`)).toBe(
+      `uv run python -c "print('hi')"`
+    );
+    expect(translate("npx prettier $FILES")).toBe("bunx prettier $FILES");
+    expect(translate("npm install {react,vue}")).toBe("bun add {react,vue}");
+    expect(translate("npx tsc --project={a,b}")).toBe("bunx tsc --project={a,b}");
+  });
+
+  it("should not guess at commands without an exact equivalent", () => {
+    expect(translate("npm install --legacy-peer-deps")).toBeUndefined();
+    expect(translate("npm audit fix")).toBeUndefined();
+    expect(translate("npx --node-options=--inspect jest")).toBeUndefined();
+    expect(translate("pip")).toBeUndefined();
+    expect(translate("pip --version")).toBeUndefined();
+    for (const subcommand of [
+      "download requests",
+      "wheel .",
+      "config list",
+      "cache purge",
+      "hash x.whl",
+      "search requests",
+    ]) {
+      expect(translate(`pip ${subcommand}`)).toBeUndefined();
+      expect(translate(`python -m pip ${subcommand}`)).toBeUndefined();
+    }
+    expect(translate("node")).toBeUndefined();
+    expect(translate("node -v")).toBeUndefined();
+    expect(translate("node --version")).toBeUndefined();
+    expect(translate("python2 script.py")).toBeUndefined();
+    expect(translate("npm init vite -- --template react")).toBeUndefined();
+  });
+});
@@ -0,0 +1,222 @@
+// Translate blocked package manager and interpreter invocations into their
+// exact bun/uv equivalents. Decisions are made on word values, but arguments
+// are carried over as their original source text so quoting and expansions
+// survive the translation.
+
+export interface Token {
+  value: string;
+  text: string;
+}
+
+type Translator = (args: Token[]) => string[] | undefined;
+
+const texts = (args: Token[]): string[] => args.map((arg) => arg.text);
+
+// npm install flags with a different spelling in `bun add`
+const NPM_ADD_FLAGS: Record<string, string | null> = {
+  "-D": "-d",
+  "--save-dev": "-d",
+  "-O": "--optional",
+  "--save-optional": "--optional",
+  "--save-peer": "--peer",
+  "-E": "--exact",
+  "--save-exact": "--exact",
+  "-g": "-g",
+  "--global": "-g",
+  "-S": null,
+  "--save": null,
+  "-P": null,
+  "--save-prod": null,
+};
+
+// npm subcommands that bun spells the same way
+const NPM_SAME_SUBCOMMANDS: readonly string[] = [
+  "link",
+  "outdated",
+  "pack",
+  "publish",
+  "update",
+  "why",
+];
+
+const NPM_ALIASES: Record<string, string> = {
+  i: "install",
+  add: "install",
+  in: "install",
+  un: "uninstall",
+  remove: "uninstall",
+  rm: "uninstall",
+  r: "uninstall",
+  up: "update",
+  upgrade: "update",
+  "run-script": "run",
+  t: "test",
+  x: "exec",
+};
+
+function translateNpmInstall(args: Token[]): string[] | undefined {
+  const packages: string[] = [];
+  const flags: string[] = [];
+  for (const arg of args) {
+    if (!arg.value.startsWith("-")) {
+      packages.push(arg.text);
+    } else if (Object.hasOwn(NPM_ADD_FLAGS, arg.value)) {
+      const flag = NPM_ADD_FLAGS[arg.value];
+      if (flag && !flags.includes(flag)) flags.push(flag);
+    } else {
+      // Flags bun has no equivalent for, e.g. --legacy-peer-deps
+      return undefined;
+    }
+  }
+  if (packages.length === 0) {
+    return flags.includes("-g") ? undefined : ["bun", "install"];
+  }
+  return ["bun", "add", ...flags, ...packages];
+}
+
+// A bare `npm init` creates a package.json like `bun init`, while
+// `npm init <initializer>` runs `create-<initializer>` like `bun create`
+function translateNpmInit(args: Token[]): string[] | undefined {
+  if (args.every((arg) => arg.value === "-y" || arg.value === "--yes")) {
+    return ["bun", "init", ...texts(args)];
+  }
+  const [initializer, ...rest] = args;
+  if (initializer.value.startsWith("-")) return undefined;
+  if (rest.some((arg) => arg.value === "--")) return undefined;
+  return ["bun", "create", ...texts(args)];
+}
+
+const translateNpm: Translator = (args) => {
+  const [first, ...rest] = args;
+  if (!first) return undefined;
+  if (first.value === "-v" || first.value === "--version") {
+    return ["bun", "--version"];
+  }
+
+  const subcommand: string = NPM_ALIASES[first.value] ?? first.value;
+  switch (subcommand) {
+    case "install":
+      return translateNpmInstall(rest);
+    case "ci":
+      return rest.length === 0 ? ["bun", "install", "--frozen-lockfile"] : undefined;
+    case "uninstall":
+      if (rest.some((arg) => arg.value.startsWith("-"))) return undefined;
+      return rest.length > 0 ? ["bun", "remove", ...texts(rest)] : undefined;
+    case "run": {
+      // bun passes everything after the script name through to the script
+      const separator: number = rest.findIndex((arg) => arg.value === "--");
+      const scriptArgs: Token[] =
+        separator === -1
+          ? rest
+          : [...rest.slice(0, separator), ...rest.slice(separator + 1)];
+      return rest.length > 0 ? ["bun", "run", ...texts(scriptArgs)] : undefined;
+    }
+    case "test":
+    case "start":
+    case "stop":
+    case "restart": {
+      const separator: number = rest.findIndex((arg) => arg.value === "--");
+      if (separator > 0) return undefined;
+      return ["bun", "run", subcommand, ...texts(rest.slice(separator + 1))];
+    }
+    case "exec":
+      return translateNpx(rest);
+    case "init":
+      return translateNpmInit(rest);
+    default:
+      if (NPM_SAME_SUBCOMMANDS.includes(subcommand)) {
+        return ["bun", subcommand, ...texts(rest)];
+      }
+      return undefined;
+  }
+};
+
+function translateNpx(args: Token[]): string[] | undefined {
+  const result: string[] = ["bunx"];
+  let i = 0;
+  for (; i < args.length && args[i].value.startsWith("-"); i++) {
+    const flag: string = args[i].value;
+    if (flag === "--") {
+      i++;
+      break;
+    }
+    if (flag === "-y" || flag === "--yes") continue;
+    if (flag === "-p" || flag === "--package") {
+      if (!args[i + 1]) return undefined;
+      result.push("--package", args[++i].text);
+      continue;
+    }
+    if (flag.startsWith("--package=")) {
+      result.push(args[i].text);
+      continue;
+    }
+    return undefined;
+  }
+  // npm exec passes the command's own arguments after `--`
+  const command: Token[] = args.slice(i).filter((arg) => arg.value !== "--");
+  if (command.length === 0) return undefined;
+  return [...result, ...texts(command)];
+}
+
+// `python -m pip` and `python -m venv` have dedicated uv commands
+function translatePython(program: string): Translator {
+  return (args) => {
+    if (args[0]?.value === "-m" && args[1]?.value === "pip") {
+      return translatePip(args.slice(2));
+    }
+    if (args[0]?.value === "-m" && args[1]?.value === "venv") {
+      return ["uv", "venv", ...texts(args.slice(2))];
+    }
+    return ["uv", "run", program, ...texts(args)];
+  };
+}
+
+// The pip subcommands that `uv pip` implements. Others, such as `download`
+// or `wheel`, and top-level flags such as `--version` have no equivalent.
+const UV_PIP_SUBCOMMANDS: readonly string[] = [
+  "install",
+  "uninstall",
+  "freeze",
+  "list",
+  "show",
+  "tree",
+  "check",
+  "compile",
+  "sync",
+];
+
+const translatePip: Translator = (args) => {
+  if (!UV_PIP_SUBCOMMANDS.includes(args[0]?.value)) return undefined;
+  return ["uv", "pip", ...texts(args)];
+};
+
+// `node` options that describe node itself rather than run a script
+const NODE_QUERIES: readonly string[] = ["-v", "--version", "-h", "--help"];
+
+const TRANSLATORS: Record<string, Translator> = {
+  // A bare `node` starts a REPL, which a bare `bun` does not
+  node: (args) =>
+    args.length > 0 && !NODE_QUERIES.includes(args[0].value)
+      ? ["bun", ...texts(args)]
+      : undefined,
+  npm: translateNpm,
+  npx: translateNpx,
+  pip: translatePip,
+  pip3: translatePip,
+  python: translatePython("python"),
+  // There is no exact translation for python2, as uv runs Python 3
+  python3: translatePython("python3"),
+};
+
+// The equivalent command line for a blocked program, or undefined when there
+// is no exact translation
+export function translateCommand(
+  program: string,
+  args: Token[]
+): string | undefined {
+  const translator: Translator | undefined = Object.hasOwn(TRANSLATORS, program)
+    ? TRANSLATORS[program]
+    : undefined;
+  // Words a brace expansion added after the first have no text of their own
+  return translator?.(args)?.filter(Boolean).join(" ");
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { ViolationLog } from "./violations";
+
+describe("ViolationLog", () => {
+  it("should summarize violations per rule, most frequent first", () => {
+    const log = new ViolationLog();
+    const time = new Date();
+    log.record({ ruleId: "git", tool: "bash", argument: "git push", message: "", decision: "block", time });
+    log.record({ ruleId: "npm", tool: "bash", argument: "npm i", message: "", decision: "warn", time });
+    log.record({ ruleId: "npm", tool: "bash", argument: "npm test", message: "", decision: "block", time });
+
+    expect(log.summary()).toBe(
+      [
+        "3 command-blocker violation(s):",
+        "  npm: 2 (1 warned, 0 rewritten), e.g. bash: npm i",
+        "  git: 1 (0 warned, 0 rewritten), e.g. bash: git push",
+      ].join("\n")
+    );
+  });
+
+  it("should report when there are no violations", () => {
+    const log = new ViolationLog();
+    expect(log.summary()).toBe("No command-blocker violations.");
+    log.record({ ruleId: "git", tool: "bash", argument: "git push", message: "", decision: "block", time: new Date() });
+    log.clear();
+    expect(log.all()).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import type { Span } from "./shell-parser";
+
+export interface Violation {
+  ruleId: string;
+  tool: string;
+  argument: string;
+  message: string;
+  span?: Span;
+  // Whether the call was blocked, rewritten, or only warned about
+  decision: "block" | "warn" | "rewrite";
+  // The command the call was rewritten to
+  rewrite?: string;
+  time: Date;
+}
+
+// Violations seen by a plugin instance, so that a warn-only rollout can be
+// reviewed before switching to enforcement
+export class ViolationLog {
+  private readonly violations: Violation[] = [];
+
+  record(violation: Violation): void {
+    this.violations.push(violation);
+  }
+
+  all(): readonly Violation[] {
+    return this.violations;
+  }
+
+  clear(): void {
+    this.violations.length = 0;
+  }
+
+  // One line per rule, most frequent first, with an example argument
+  summary(): string {
+    if (this.violations.length === 0) return "No command-blocker violations.";
+
+    const byRule = new Map<string, Violation[]>();
+    for (const violation of this.violations) {
+      const entries: Violation[] = byRule.get(violation.ruleId) ?? [];
+      entries.push(violation);
+      byRule.set(violation.ruleId, entries);
+    }
+
+    const lines: string[] = [
+      `${this.violations.length} command-blocker violation(s):`,
+    ];
+    const rules = [...byRule].sort((a, b) => b[1].length - a[1].length);
+    for (const [ruleId, entries] of rules) {
+      const count = (decision: Violation["decision"]): number =>
+        entries.filter((entry) => entry.decision === decision).length;
+      lines.push(
+        `  ${ruleId}: ${entries.length} (${count("warn")} warned, ${count("rewrite")} rewritten), e.g. ${entries[0].tool}: ${entries[0].argument}`
+      );
+    }
+    return lines.join("\n");
+  }
+}